@@ -12,13 +12,50 @@
 // =============================================================================
 
 export type {
+    BinaryData,
+    Cloneable,
+    DateSetter,
     DeepReadonly,
     DeepReadonlyArray,
+    DeepReadonlyFunction,
+    DeepReadonlyToDepth,
     DeepReadonlyMap, DeepReadonlyObject, DeepReadonlySet, EnsureFrozen, Freezable, Frozen, FrozenBrand, IsFrozen, Mutable,
-    Primitive, Thawed
+    Primitive, ReadonlyArrayBuffer, ReadonlyBinary, ReadonlyDataView, ReadonlyDate, ReadonlyTypedArray, ShallowReadonly, Thawed, TypedArray,
+    OpaqueContainer,
+    ReadonlyHeaders,
+    ReadonlyOpaque,
+    ReadonlyURL,
+    ReadonlyURLSearchParams,
+    ReadonlyWeakMap,
+    ReadonlyWeakSet,
+    SelfFreezing,
+    TypedArrayMutator,
+    Validatable
 } from "./src/types.ts";
 
-export { isFreezable } from "./src/types.ts";
+export type {
+    Draft, IntegrityLevel, NonExtensible, NonExtensibleArray, NonExtensibleBrand, Sealed, SealedArray, SealedBrand
+} from "./src/types.ts";
+
+export type { DeepPartial, MergeChanges, Path, PathKey, PathValue } from "./src/types.ts";
+
+export {
+    CLONE, FREEZE, isCloneable, isFreezable, isSelfFreezing, isValidatable, VALIDATE
+} from "./src/types.ts";
+
+// =============================================================================
+// Type Registry
+// =============================================================================
+
+export { registerType, unregisterType } from "./src/registry.ts";
+export type { TypeConstructor, TypeHandler } from "./src/registry.ts";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export { configure, getConfig, isProduction } from "./src/config.ts";
+export type { FlashFreezeConfig, FreezeMode } from "./src/config.ts";
 
 // =============================================================================
 // Core Freeze Functions
@@ -26,10 +63,36 @@ export { isFreezable } from "./src/types.ts";
 
 export {
     deepFreeze,
-    ensureFrozen, freeze, freezeAll,
-    freezeRecord
+    ensureFrozen, freeze, freezeAll, freezeAsync,
+    FreezeError,
+    freezeRecord,
+    freezeStrict,
+    freezeWithReport
 } from "./src/freeze.ts";
 
+export { deepPreventExtensions, deepSeal } from "./src/freeze.ts";
+
+export type {
+    AccessorPolicy,
+    FreezeAsyncOptions,
+    FreezeOptions,
+    FreezeProgress,
+    FreezeReport,
+    FreezeResult,
+    FunctionPolicy,
+    SealOptions
+} from "./src/freeze.ts";
+
+// =============================================================================
+// Hardening
+// =============================================================================
+
+export { harden, isHardened } from "./src/harden.ts";
+export type { HardenOptions } from "./src/harden.ts";
+
+export { DEFAULT_OVERRIDES, lockdown } from "./src/lockdown.ts";
+export type { LockdownOptions, LockdownReport } from "./src/lockdown.ts";
+
 // =============================================================================
 // Copy Functions
 // =============================================================================
@@ -42,6 +105,8 @@ export {
     snapshotHistory
 } from "./src/copy.ts";
 
+export type { CopyOptions } from "./src/copy.ts";
+
 // =============================================================================
 // Builders
 // =============================================================================
@@ -65,6 +130,73 @@ export {
     frozenTuple
 } from "./src/builders.ts";
 
+// =============================================================================
+// Updates
+// =============================================================================
+
+export { isDraft, produce } from "./src/produce.ts";
+export { deleteIn, getIn, mergeIn, setIn, updateIn } from "./src/update.ts";
+export { frozenMerge, mergeOptions } from "./src/merge.ts";
+export type {
+    ArrayMergeStrategy, BrandedMergeOptions, MapMergeStrategy, MergeOptions, SetMergeStrategy
+} from "./src/merge.ts";
+
+// =============================================================================
+// Collection Operations
+// =============================================================================
+
+export {
+    // Array operations
+    append, insertAt, removeAt, replaceAt, sortBy,
+    // Map operations
+    mapValues, withEntry, withoutKey,
+    // Set operations
+    difference, intersection, union
+} from "./src/collections.ts";
+
+// =============================================================================
+// Binary Data
+// =============================================================================
+
+export { isReadonlyBinary, readonlyBinary } from "./src/binary.ts";
+
+// =============================================================================
+// Opaque Containers
+// =============================================================================
+
+export { isReadonlyOpaque, readonlyOpaque } from "./src/opaque.ts";
+export type { OpaquePolicy } from "./src/opaque.ts";
+
+// =============================================================================
+// Read-Only Views
+// =============================================================================
+
+export { isReadonlyView, readonlyView } from "./src/view.ts";
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+export {
+    frozenDate,
+    plusDays,
+    plusHours,
+    plusMilliseconds,
+    plusMinutes,
+    plusMonths,
+    plusSeconds,
+    plusWeeks,
+    plusYears,
+    withDay,
+    withHours,
+    withMilliseconds,
+    withMinutes,
+    withMonth,
+    withSeconds,
+    withTimeOfDay,
+    withYear
+} from "./src/dates.ts";
+
 // =============================================================================
 // Validation
 // =============================================================================
@@ -77,3 +209,14 @@ export {
     // Type guards
     isShallowFrozen
 } from "./src/validation.ts";
+
+export {
+    assertNonExtensible, assertSealed, findExtensiblePath, findUnsealedPath, isNonExtensible, isSealed
+} from "./src/validation.ts";
+
+// =============================================================================
+// Equality
+// =============================================================================
+
+export { deepEqual } from "./src/equal.ts";
+export { structuralHash } from "./src/hash.ts";
@@ -0,0 +1,234 @@
+/**
+ * Read-only facades for binary data.
+ *
+ * `Object.freeze` throws on a non-empty TypedArray, and an ArrayBuffer's
+ * bytes can't be frozen at all. Binary data is therefore never frozen in
+ * place: it is copied into a private buffer and exposed through a Proxy
+ * that rejects writes and mutating methods. Views that shared a buffer
+ * before the copy keep sharing the copied buffer.
+ *
+ * Facades are not `ArrayBuffer.isView` - APIs that need a real buffer
+ * source (`TextDecoder`, `crypto.subtle`) take a mutable copy, e.g.
+ * `new Uint8Array(facade)` or `facade.slice()`.
+ *
+ * @module
+ */
+
+import { isFacade, registerFacade } from "./lock.ts";
+import { typeName } from "./objects.ts";
+import type { BinaryData, ReadonlyBinary } from "./types.ts";
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Check whether a value is an ArrayBuffer, SharedArrayBuffer, TypedArray or
+ * DataView (or a read-only facade over one).
+ */
+export function isBinary(value: object): value is BinaryData {
+  return (
+    ArrayBuffer.isView(value) ||
+    value instanceof ArrayBuffer ||
+    (typeof SharedArrayBuffer !== "undefined" && value instanceof SharedArrayBuffer) ||
+    FACADE_TARGETS.has(value)
+  );
+}
+
+/**
+ * Check whether a value is a read-only binary facade.
+ *
+ * @example
+ * ```ts
+ * const msg = freeze({ pixels: new Uint8Array(4) });
+ * isReadonlyBinary(msg.pixels); // true
+ * ```
+ */
+export function isReadonlyBinary(value: unknown): boolean {
+  return value !== null && typeof value === "object" && FACADE_TARGETS.has(value);
+}
+
+// =============================================================================
+// Facades
+// =============================================================================
+
+/** Facade -> private copy it wraps. */
+const FACADE_TARGETS = new WeakMap<object, BinaryData>();
+
+/** Private copy -> its facade, so every path to a copy yields one facade. */
+const FACADES_BY_TARGET = new WeakMap<BinaryData, object>();
+
+const TYPED_ARRAY_MUTATORS = new Set<PropertyKey>(["set", "fill", "copyWithin", "reverse", "sort"]);
+const BUFFER_MUTATORS = new Set<PropertyKey>(["resize", "grow", "transfer", "transferToFixedLength"]);
+
+function reject(name: string, action: string): never {
+  throw new TypeError(`Cannot ${action} a frozen ${name}`);
+}
+
+/**
+ * Check whether a method of a buffer or view changes its bytes or size.
+ */
+export function isBinaryMutator(target: BinaryData, key: PropertyKey): boolean {
+  if (target instanceof DataView) {
+    return typeof key === "string" && key.startsWith("set");
+  }
+  if (ArrayBuffer.isView(target)) {
+    return TYPED_ARRAY_MUTATORS.has(key);
+  }
+  return BUFFER_MUTATORS.has(key);
+}
+
+/**
+ * Wrap a private binary value in a read-only facade.
+ * The target must not be reachable from anywhere else.
+ */
+export function wrapBinary<T extends BinaryData>(target: T): ReadonlyBinary<T> {
+  const existing = FACADES_BY_TARGET.get(target);
+  if (existing) {
+    return existing as ReadonlyBinary<T>;
+  }
+
+  const name = typeName(target);
+  const methods = new Map<PropertyKey, unknown>();
+
+  // Fixed-length views and buffers can be made non-extensible, which lets
+  // the facade report itself as non-extensible without breaking Proxy invariants
+  Object.preventExtensions(target);
+
+  const facade = new Proxy(target, {
+    get(t, key) {
+      if (key === "buffer" && ArrayBuffer.isView(t)) {
+        return wrapBinary(t.buffer);
+      }
+
+      const cached = methods.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      // Resolve accessors (length, byteLength, ...) against the real target,
+      // they throw when called on a Proxy
+      const value = Reflect.get(t, key, t);
+      if (typeof value !== "function") {
+        return value;
+      }
+
+      let method: unknown;
+      if (isBinaryMutator(t, key)) {
+        method = () => reject(name, `call ${String(key)}() on`);
+      } else if (key === "subarray") {
+        // subarray aliases the private buffer - keep the result read-only too
+        method = (...args: unknown[]) =>
+          wrapBinary((value as (...a: unknown[]) => BinaryData).apply(t, args));
+      } else {
+        method = (value as (...a: unknown[]) => unknown).bind(t);
+      }
+      methods.set(key, method);
+      return method;
+    },
+    set(_t, key) {
+      return reject(name, `assign to ${String(key)} of`);
+    },
+    defineProperty(_t, key) {
+      return reject(name, `define ${String(key)} on`);
+    },
+    deleteProperty(_t, key) {
+      return reject(name, `delete ${String(key)} from`);
+    },
+    setPrototypeOf() {
+      return reject(name, "change the prototype of");
+    },
+  });
+
+  FACADE_TARGETS.set(facade, target);
+  FACADES_BY_TARGET.set(target, facade);
+  registerFacade(facade);
+  return facade as unknown as ReadonlyBinary<T>;
+}
+
+/**
+ * Get the private value behind a facade, or the value itself if it isn't one.
+ * Only for reading - the returned value must not be mutated or leaked.
+ */
+export function unwrapBinary<T extends BinaryData>(value: T): T {
+  return (FACADE_TARGETS.get(value) as T | undefined) ?? value;
+}
+
+// =============================================================================
+// Copying
+// =============================================================================
+
+/**
+ * Copy a buffer's bytes into a fresh, fixed-length ArrayBuffer.
+ * Works for SharedArrayBuffer and resizable buffers too.
+ */
+function copyBuffer(buffer: ArrayBufferLike): ArrayBuffer {
+  const copy = new ArrayBuffer(buffer.byteLength);
+  new Uint8Array(copy).set(new Uint8Array(buffer));
+  return copy;
+}
+
+/**
+ * Deep-copy a binary value.
+ *
+ * Views are re-created over a copy of their whole underlying buffer, so
+ * offsets are preserved and two views that shared a buffer still share one.
+ * Pass the same `copies` map for every value in one graph to get that sharing.
+ *
+ * @param value - Buffer or view to copy (facades are read through)
+ * @param copies - Original buffer -> copied buffer, shared across one traversal
+ * @returns Mutable copy
+ */
+export function copyBinary<T extends BinaryData>(
+  value: T,
+  copies: Map<ArrayBufferLike, ArrayBuffer> = new Map()
+): T {
+  const source = unwrapBinary(value) as BinaryData;
+  const buffer = ArrayBuffer.isView(source) ? source.buffer : source;
+
+  let bufferCopy = copies.get(buffer);
+  if (bufferCopy === undefined) {
+    bufferCopy = copyBuffer(buffer);
+    copies.set(buffer, bufferCopy);
+  }
+
+  if (!ArrayBuffer.isView(source)) {
+    return bufferCopy as T;
+  }
+  if (source instanceof DataView) {
+    return new DataView(bufferCopy, source.byteOffset, source.byteLength) as T;
+  }
+
+  const Ctor = source.constructor as new (
+    buffer: ArrayBuffer,
+    byteOffset: number,
+    length: number
+  ) => T;
+  return new Ctor(bufferCopy, source.byteOffset, (source as unknown as ArrayLike<unknown>).length);
+}
+
+/**
+ * Create a read-only copy of binary data.
+ * The input stays mutable and is not linked to the result.
+ *
+ * @param value - Buffer or view to copy
+ * @param copies - Original buffer -> copied buffer, shared across one traversal
+ * @returns Read-only facade over a private copy
+ *
+ * @example
+ * ```ts
+ * const bytes = readonlyBinary(new Uint8Array([1, 2, 3]));
+ * bytes[0];        // 1
+ * bytes[0] = 9;    // TypeError
+ * bytes.fill(0);   // TypeError
+ * ```
+ */
+export function readonlyBinary<T extends BinaryData>(
+  value: T,
+  copies?: Map<ArrayBufferLike, ArrayBuffer>
+): ReadonlyBinary<T> {
+  if (isFacade(value)) {
+    return value as unknown as ReadonlyBinary<T>;
+  }
+  return wrapBinary(copyBinary(value, copies));
+}
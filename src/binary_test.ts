@@ -0,0 +1,125 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { copyBinary, isBinary, isReadonlyBinary, readonlyBinary } from "./binary.ts";
+
+// =============================================================================
+// isBinary
+// =============================================================================
+
+Deno.test("isBinary - detects buffers and views", () => {
+  assertEquals(isBinary(new ArrayBuffer(1)), true);
+  assertEquals(isBinary(new Uint8Array(1)), true);
+  assertEquals(isBinary(new Float64Array(1)), true);
+  assertEquals(isBinary(new DataView(new ArrayBuffer(1))), true);
+});
+
+Deno.test("isBinary - false for arrays and plain objects", () => {
+  assertEquals(isBinary([]), false);
+  assertEquals(isBinary({ length: 1 }), false);
+});
+
+// =============================================================================
+// readonlyBinary - TypedArray
+// =============================================================================
+
+Deno.test("readonlyBinary - reads like the original", () => {
+  const bytes = readonlyBinary(new Uint8Array([1, 2, 3]));
+  assertEquals(bytes.length, 3);
+  assertEquals(bytes[1], 2);
+  assertEquals([...bytes], [1, 2, 3]);
+  assertEquals(bytes.indexOf(3), 2);
+  assertEquals(bytes instanceof Uint8Array, true);
+  assertEquals(isReadonlyBinary(bytes), true);
+});
+
+Deno.test("readonlyBinary - index assignment throws", () => {
+  const bytes = readonlyBinary(new Uint8Array([1, 2, 3]));
+  assertThrows(() => {
+    (bytes as any)[0] = 9;
+  }, TypeError);
+  assertEquals(bytes[0], 1);
+});
+
+Deno.test("readonlyBinary - in-place mutators throw", () => {
+  const bytes = readonlyBinary(new Uint8Array([3, 1, 2]));
+  assertThrows(() => (bytes as any).fill(0), TypeError);
+  assertThrows(() => (bytes as any).set([9]), TypeError);
+  assertThrows(() => (bytes as any).sort(), TypeError);
+  assertThrows(() => (bytes as any).reverse(), TypeError);
+  assertThrows(() => (bytes as any).copyWithin(0, 1), TypeError);
+  assertEquals([...bytes], [3, 1, 2]);
+});
+
+Deno.test("readonlyBinary - copies, so the source stays independent", () => {
+  const source = new Uint8Array([1, 2, 3]);
+  const bytes = readonlyBinary(source);
+  source[0] = 99;
+  assertEquals(bytes[0], 1);
+});
+
+Deno.test("readonlyBinary - buffer and subarray are read-only too", () => {
+  const bytes = readonlyBinary(new Uint8Array([1, 2, 3, 4]));
+  assertEquals(isReadonlyBinary(bytes.buffer), true);
+  assertEquals(bytes.buffer.byteLength, 4);
+  const tail = bytes.subarray(2);
+  assertEquals([...tail], [3, 4]);
+  assertThrows(() => {
+    (tail as any)[0] = 0;
+  }, TypeError);
+});
+
+Deno.test("readonlyBinary - non-mutating copies are mutable", () => {
+  const bytes = readonlyBinary(new Uint8Array([1, 2]));
+  const copy = bytes.slice();
+  copy[0] = 5;
+  assertEquals(copy[0], 5);
+  assertEquals(bytes[0], 1);
+});
+
+Deno.test("readonlyBinary - preserves view offsets", () => {
+  const buffer = new ArrayBuffer(8);
+  new Uint8Array(buffer).set([0, 1, 2, 3, 4, 5, 6, 7]);
+  const view = readonlyBinary(new Uint8Array(buffer, 4, 2));
+  assertEquals(view.byteOffset, 4);
+  assertEquals([...view], [4, 5]);
+});
+
+Deno.test("readonlyBinary - returns facades unchanged", () => {
+  const bytes = readonlyBinary(new Uint8Array(2));
+  assertEquals(readonlyBinary(bytes as any), bytes);
+});
+
+// =============================================================================
+// readonlyBinary - DataView and ArrayBuffer
+// =============================================================================
+
+Deno.test("readonlyBinary - DataView getters work, setters throw", () => {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint16(0, 513);
+  const frozenView = readonlyBinary(view);
+  assertEquals(frozenView.getUint16(0), 513);
+  assertThrows(() => (frozenView as any).setUint16(0, 1), TypeError);
+});
+
+Deno.test("readonlyBinary - ArrayBuffer resize/transfer throw, slice copies", () => {
+  const buffer = readonlyBinary(new ArrayBuffer(4));
+  assertEquals(buffer.byteLength, 4);
+  assertThrows(() => (buffer as any).transfer(), TypeError);
+  assertEquals(buffer.slice(0).byteLength, 4);
+});
+
+// =============================================================================
+// copyBinary
+// =============================================================================
+
+Deno.test("copyBinary - views sharing a buffer share the copy", () => {
+  const buffer = new ArrayBuffer(4);
+  const a = new Uint8Array(buffer);
+  const b = new Uint16Array(buffer);
+  const copies = new Map();
+  const copyA = copyBinary(a, copies);
+  const copyB = copyBinary(b, copies);
+  assertEquals(copyA.buffer === copyB.buffer, true);
+  assertEquals(copyA.buffer === buffer, false);
+  copyA[0] = 1;
+  assertEquals(copyB[0], 1);
+});
@@ -8,14 +8,15 @@
  * @module
  */
 
-import { freeze } from "./freeze.ts";
+import { freeze, freezeAlways } from "./freeze.ts";
 import type { Frozen } from "./types.ts";
 
-// Cached empty sentinels (frozen and empty, safe to share)
-const _EMPTY_OBJ = freeze({});
-const _EMPTY_ARR = freeze([]);
-const _EMPTY_MAP = freeze(new Map());
-const _EMPTY_SET = freeze(new Set());
+// Cached empty sentinels (frozen and empty, safe to share - even in
+// production mode, since every caller gets the same instance)
+const _EMPTY_OBJ = freezeAlways({});
+const _EMPTY_ARR = freezeAlways([]);
+const _EMPTY_MAP = freezeAlways(new Map());
+const _EMPTY_SET = freezeAlways(new Set());
 
 // =============================================================================
 // Object Builders
@@ -1,4 +1,4 @@
-import { assertEquals } from "jsr:@std/assert";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
 import {
     emptyFrozenArray,
     emptyFrozenMap,
@@ -19,6 +19,7 @@ import {
     frozenSetOf,
     frozenTuple,
 } from "./builders.ts";
+import { configure } from "./config.ts";
 import { isFrozen } from "./validation.ts";
 
 // =============================================================================
@@ -107,6 +108,13 @@ Deno.test("emptyFrozenMap - creates empty frozen map", () => {
   assertEquals((map as any).size, 0);
 });
 
+Deno.test("frozenMap - rejects mutation", () => {
+  const map = frozenMap([["a", 1]]);
+  assertThrows(() => (map as any).set("x", 1), TypeError);
+  assertThrows(() => (emptyFrozenMap() as any).set("x", 1), TypeError);
+  assertEquals(emptyFrozenMap().size, 0);
+});
+
 // =============================================================================
 // Set builders
 // =============================================================================
@@ -129,6 +137,13 @@ Deno.test("emptyFrozenSet - creates empty frozen set", () => {
   assertEquals((set as any).size, 0);
 });
 
+Deno.test("frozenSet - rejects mutation", () => {
+  const set = frozenSet([1]);
+  assertThrows(() => (set as any).add(2), TypeError);
+  assertThrows(() => (emptyFrozenSet() as any).add(1), TypeError);
+  assertEquals(emptyFrozenSet().size, 0);
+});
+
 // =============================================================================
 // Tuple builders
 // =============================================================================
@@ -167,3 +182,19 @@ Deno.test("frozenRecordFilled - creates frozen record with same value", () => {
   assertEquals((record as any).y, false);
   assertEquals((record as any).z, false);
 });
+
+// =============================================================================
+// Production mode
+// =============================================================================
+
+Deno.test("builders - production mode skips freezing, empty sentinels stay frozen", () => {
+  configure({ mode: "production" });
+  try {
+    assertEquals(Object.isFrozen(frozenArray([{ a: 1 }])), false);
+    assertEquals(Object.isFrozen(frozenObject([["a", 1]])), false);
+    assertEquals(Object.isFrozen(emptyFrozenObject()), true);
+    assertEquals(Object.isFrozen(emptyFrozenArray()), true);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
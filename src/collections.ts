@@ -0,0 +1,364 @@
+/**
+ * Persistent operations on frozen collections.
+ *
+ * Each operation takes a frozen array, Map or Set and returns a new frozen
+ * one, leaving the original as it is. Elements carried over are the
+ * original's, by reference, and are not traversed again: only values the
+ * operation adds are frozen, and the new collection itself is frozen
+ * shallowly. Spreading into a copy and calling `freeze()` on it instead
+ * checks every element.
+ *
+ * An operation that changes nothing returns the original collection.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import { typeName } from "./objects.ts";
+import type { Frozen } from "./types.ts";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Freeze a collection whose elements are frozen already, without looking
+ * at them again.
+ */
+function freezeShallow<T>(collection: T): Frozen<T> {
+  return freeze(collection, { depth: 0 }) as unknown as Frozen<T>;
+}
+
+/**
+ * Freeze a new Map key or Set member, which has to stay the same object to
+ * be found by it.
+ *
+ * @param role - `"key"` or `"member"`, for the error message
+ * @throws TypeError if freezing puts another object in its place: binary
+ *   data, a Map, Set or Date frozen by hand, or a value whose freeze
+ *   method returns a replacement
+ */
+function freezeInPlace<T>(value: T, role: string): T {
+  if (freeze(value) !== value) {
+    throw new TypeError(
+      `Cannot add a ${typeName(value as object)} ${role}: freezing it would replace it with another object`
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve a possibly negative index against a length, like `Array.prototype.at`.
+ *
+ * @param max - Largest valid index
+ * @throws RangeError if the index falls outside 0..max
+ */
+function resolveIndex(index: number, length: number, max: number): number {
+  const resolved = index < 0 ? length + index : index;
+  if (!Number.isInteger(resolved) || resolved < 0 || resolved > max) {
+    throw new RangeError(`Index ${index} is out of range for length ${length}`);
+  }
+  return resolved;
+}
+
+// =============================================================================
+// Array Operations
+// =============================================================================
+
+/**
+ * Add items to the end of a frozen array.
+ *
+ * @param array - Frozen array (not changed)
+ * @param items - Items to add (frozen in the result)
+ * @returns New frozen array, or the original if there are no items
+ *
+ * @example
+ * ```ts
+ * const todos = frozenArrayOf({ title: "write" });
+ * const more = append(todos, { title: "test" });
+ * more[0] === todos[0]; // true
+ * ```
+ */
+export function append<T>(array: ReadonlyArray<T>, ...items: T[]): Frozen<T[]> {
+  return insertAt(array, array.length, ...items);
+}
+
+/**
+ * Insert items into a frozen array before an index.
+ *
+ * @param array - Frozen array (not changed)
+ * @param index - Position of the first inserted item; negative counts
+ *   from the end, and the length appends
+ * @param items - Items to insert (frozen in the result)
+ * @returns New frozen array, or the original if there are no items
+ * @throws RangeError if the index is out of range
+ *
+ * @example
+ * ```ts
+ * insertAt(frozenArrayOf("a", "c"), 1, "b"); // ["a", "b", "c"]
+ * ```
+ */
+export function insertAt<T>(array: ReadonlyArray<T>, index: number, ...items: T[]): Frozen<T[]> {
+  const start = resolveIndex(index, array.length, array.length);
+  if (items.length === 0) {
+    return array as Frozen<T[]>;
+  }
+
+  const result = new Array<T>(array.length + items.length);
+  for (let i = 0; i < start; i++) {
+    result[i] = array[i]!;
+  }
+  for (let i = 0; i < items.length; i++) {
+    result[start + i] = freeze(items[i]) as T;
+  }
+  for (let i = start; i < array.length; i++) {
+    result[items.length + i] = array[i]!;
+  }
+  return freezeShallow(result);
+}
+
+/**
+ * Remove items from a frozen array, shifting the ones after them.
+ *
+ * @param array - Frozen array (not changed)
+ * @param index - Position of the first item to remove; negative counts
+ *   from the end
+ * @param count - Number of items to remove (fewer if the array ends first)
+ * @returns New frozen array, or the original if nothing is removed
+ * @throws RangeError if the index is out of range
+ *
+ * @example
+ * ```ts
+ * removeAt(frozenArrayOf("a", "b", "c"), -1); // ["a", "b"]
+ * ```
+ */
+export function removeAt<T>(array: ReadonlyArray<T>, index: number, count = 1): Frozen<T[]> {
+  const start = resolveIndex(index, array.length, array.length - 1);
+  const end = Math.min(start + Math.max(count, 0), array.length);
+  if (end === start) {
+    return array as Frozen<T[]>;
+  }
+
+  const result = new Array<T>(array.length - (end - start));
+  for (let i = 0; i < start; i++) {
+    result[i] = array[i]!;
+  }
+  for (let i = end; i < array.length; i++) {
+    result[i - (end - start)] = array[i]!;
+  }
+  return freezeShallow(result);
+}
+
+/**
+ * Replace one item of a frozen array.
+ *
+ * @param array - Frozen array (not changed)
+ * @param index - Position of the item; negative counts from the end
+ * @param item - New item (frozen in the result)
+ * @returns New frozen array, or the original if the item is already there
+ * @throws RangeError if the index is out of range
+ *
+ * @example
+ * ```ts
+ * replaceAt(todos, 0, { ...todos[0], done: true });
+ * ```
+ */
+export function replaceAt<T>(array: ReadonlyArray<T>, index: number, item: T): Frozen<T[]> {
+  const position = resolveIndex(index, array.length, array.length - 1);
+  if (Object.is(array[position], item)) {
+    return array as Frozen<T[]>;
+  }
+
+  const result = Array.prototype.slice.call(array) as T[];
+  result[position] = freeze(item) as T;
+  return freezeShallow(result);
+}
+
+/**
+ * Sort a frozen array by a key computed for each item. The sort is stable,
+ * and each key is computed once.
+ *
+ * @param array - Frozen array (not changed)
+ * @param key - Sort key of an item; numbers, strings and bigints compare
+ *   with `<`
+ * @param order - Ascending (the default) or descending
+ * @returns New frozen array, or the original if it is already in order
+ *
+ * @example
+ * ```ts
+ * const byAge = sortBy(users, (user) => user.age);
+ * const newest = sortBy(posts, (post) => post.created.getTime(), "desc");
+ * ```
+ */
+export function sortBy<T>(
+  array: ReadonlyArray<T>,
+  key: (item: T) => number | string | bigint,
+  order: "asc" | "desc" = "asc"
+): Frozen<T[]> {
+  const keys = new Array<number | string | bigint>(array.length);
+  const positions = new Array<number>(array.length);
+  for (let i = 0; i < array.length; i++) {
+    keys[i] = key(array[i]!);
+    positions[i] = i;
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  positions.sort((a, b) => {
+    const keyA = keys[a]!;
+    const keyB = keys[b]!;
+    return keyA < keyB ? -direction : keyA > keyB ? direction : a - b;
+  });
+
+  if (positions.every((position, i) => position === i)) {
+    return array as Frozen<T[]>;
+  }
+  return freezeShallow(positions.map((position) => array[position]!));
+}
+
+// =============================================================================
+// Map Operations
+// =============================================================================
+
+/**
+ * Set an entry of a frozen Map. A new key goes last; an existing key keeps
+ * its position.
+ *
+ * @param map - Frozen Map (not changed)
+ * @param key - Key to set (frozen in place if new)
+ * @param value - Value to store (frozen in the result)
+ * @returns New frozen Map, or the original if the entry is already there
+ * @throws TypeError if a new key can't be frozen in place - binary data,
+ *   say; use a read-only view of it as the key instead
+ *
+ * @example
+ * ```ts
+ * const roles = withEntry(frozenMap([["ada", "admin"]]), "bob", "user");
+ * ```
+ */
+export function withEntry<K, V>(map: ReadonlyMap<K, V>, key: K, value: V): Frozen<Map<K, V>> {
+  if (map.has(key) && Object.is(map.get(key), value)) {
+    return map as Frozen<Map<K, V>>;
+  }
+  const result = new Map(map);
+  result.set(map.has(key) ? key : freezeInPlace(key, "key"), freeze(value) as V);
+  return freezeShallow(result);
+}
+
+/**
+ * Remove an entry from a frozen Map.
+ *
+ * @param map - Frozen Map (not changed)
+ * @param key - Key to remove
+ * @returns New frozen Map, or the original if the key is missing
+ *
+ * @example
+ * ```ts
+ * const remaining = withoutKey(roles, "bob");
+ * ```
+ */
+export function withoutKey<K, V>(map: ReadonlyMap<K, V>, key: K): Frozen<Map<K, V>> {
+  if (!map.has(key)) {
+    return map as Frozen<Map<K, V>>;
+  }
+  const result = new Map(map);
+  result.delete(key);
+  return freezeShallow(result);
+}
+
+/**
+ * Transform the values of a frozen Map, keeping its keys and their order.
+ *
+ * @param map - Frozen Map (not changed)
+ * @param mapper - New value for an entry; returning the current value
+ *   keeps it without freezing it again
+ * @returns New frozen Map, or the original if every value is kept
+ *
+ * @example
+ * ```ts
+ * const totals = mapValues(carts, (cart) => cart.items.length);
+ * ```
+ */
+export function mapValues<K, V, W>(
+  map: ReadonlyMap<K, V>,
+  mapper: (value: V, key: K) => W
+): Frozen<Map<K, W>> {
+  const result = new Map<K, W>();
+  let changed = false;
+  for (const [key, value] of map) {
+    const next = mapper(value, key);
+    if (Object.is(next, value)) {
+      result.set(key, next);
+    } else {
+      result.set(key, freeze(next) as W);
+      changed = true;
+    }
+  }
+  return (changed ? freezeShallow(result) : map) as Frozen<Map<K, W>>;
+}
+
+// =============================================================================
+// Set Operations
+// =============================================================================
+
+/**
+ * Members of either of two frozen Sets: those of `a`, then those only in `b`.
+ *
+ * @param a - Frozen Set (not changed)
+ * @param b - Set whose members are added (frozen in place)
+ * @returns New frozen Set, or `a` if `b` adds nothing
+ * @throws TypeError if a new member can't be frozen in place
+ *
+ * @example
+ * ```ts
+ * union(frozenSetOf("a", "b"), frozenSetOf("b", "c")); // {"a", "b", "c"}
+ * ```
+ */
+export function union<T>(a: ReadonlySet<T>, b: ReadonlySet<T>): Frozen<Set<T>> {
+  let result: Set<T> | undefined;
+  for (const item of b) {
+    if (!a.has(item)) {
+      (result ??= new Set(a)).add(freezeInPlace(item, "member"));
+    }
+  }
+  return (result ? freezeShallow(result) : a) as Frozen<Set<T>>;
+}
+
+/**
+ * Members of a frozen Set that are also in another Set, in `a`'s order.
+ *
+ * @param a - Frozen Set (not changed)
+ * @param b - Set to intersect with
+ * @returns New frozen Set, or `a` if every member is in `b`
+ *
+ * @example
+ * ```ts
+ * intersection(frozenSetOf("a", "b"), frozenSetOf("b", "c")); // {"b"}
+ * ```
+ */
+export function intersection<T>(a: ReadonlySet<T>, b: ReadonlySet<T>): Frozen<Set<T>> {
+  return filterSet(a, (item) => b.has(item));
+}
+
+/**
+ * Members of a frozen Set that are not in another Set, in `a`'s order.
+ *
+ * @param a - Frozen Set (not changed)
+ * @param b - Set of members to leave out
+ * @returns New frozen Set, or `a` if no member is in `b`
+ *
+ * @example
+ * ```ts
+ * difference(frozenSetOf("a", "b"), frozenSetOf("b", "c")); // {"a"}
+ * ```
+ */
+export function difference<T>(a: ReadonlySet<T>, b: ReadonlySet<T>): Frozen<Set<T>> {
+  return filterSet(a, (item) => !b.has(item));
+}
+
+function filterSet<T>(set: ReadonlySet<T>, keep: (item: T) => boolean): Frozen<Set<T>> {
+  const result = new Set<T>();
+  for (const item of set) {
+    if (keep(item)) result.add(item);
+  }
+  return (result.size === set.size ? set : freezeShallow(result)) as Frozen<Set<T>>;
+}
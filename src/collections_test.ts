@@ -0,0 +1,164 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { readonlyBinary } from "./binary.ts";
+import { frozenArrayOf, frozenMap, frozenSetOf } from "./builders.ts";
+import {
+  append,
+  difference,
+  insertAt,
+  intersection,
+  mapValues,
+  removeAt,
+  replaceAt,
+  sortBy,
+  union,
+  withEntry,
+  withoutKey,
+} from "./collections.ts";
+import { isFrozen } from "./validation.ts";
+
+// =============================================================================
+// Array Operations
+// =============================================================================
+
+Deno.test("append - adds items and reuses existing ones", () => {
+  const todos = frozenArrayOf({ title: "write" });
+  const more = append(todos, { title: "test" }, { title: "ship" });
+
+  assertEquals(more.map((t) => t.title), ["write", "test", "ship"]);
+  assertEquals(more[0] === todos[0], true);
+  assertEquals(todos.length, 1);
+  assertEquals(isFrozen(more), true);
+  assertEquals(append(todos) === todos, true);
+});
+
+Deno.test("append - carried-over elements are not traversed", () => {
+  const loose = { n: 1 };
+  const array = Object.freeze([loose]);
+  const result = append(array, { n: 2 });
+  assertEquals(result[0] === loose, true);
+  assertEquals(Object.isFrozen(loose), false);
+  assertEquals(Object.isFrozen(result[1]), true);
+});
+
+Deno.test("insertAt - inserts before an index, negative from the end", () => {
+  const letters = frozenArrayOf("a", "d");
+  assertEquals(insertAt(letters, 1, "b", "c"), ["a", "b", "c", "d"]);
+  assertEquals(insertAt(letters, -1, "c"), ["a", "c", "d"]);
+  assertEquals(insertAt(letters, 2, "e"), ["a", "d", "e"]);
+  assertEquals(Object.isFrozen(insertAt(letters, 0, "z")), true);
+  assertThrows(() => insertAt(letters, 3, "x"), RangeError, "out of range");
+});
+
+Deno.test("removeAt - removes items and shifts the rest", () => {
+  const letters = frozenArrayOf("a", "b", "c", "d");
+  assertEquals(removeAt(letters, 1), ["a", "c", "d"]);
+  assertEquals(removeAt(letters, -2, 5), ["a", "b"]);
+  assertEquals(removeAt(letters, 0, 0) === letters, true);
+  assertEquals(Object.isFrozen(removeAt(letters, 0)), true);
+  assertThrows(() => removeAt(letters, 4), RangeError);
+});
+
+Deno.test("replaceAt - replaces one item", () => {
+  const users = frozenArrayOf({ name: "Ada" }, { name: "Alan" });
+  const next = replaceAt(users, 0, { name: "Bob" });
+  assertEquals(next[0]!.name, "Bob");
+  assertEquals(next[1] === users[1], true);
+  assertEquals(isFrozen(next), true);
+  assertEquals(replaceAt(users, -1, users[1]!) === users, true);
+  assertThrows(() => replaceAt(users, 2, { name: "Eve" }), RangeError);
+});
+
+Deno.test("sortBy - stable sort by key", () => {
+  const users = frozenArrayOf(
+    { name: "Ada", age: 36 },
+    { name: "Alan", age: 41 },
+    { name: "Grace", age: 36 }
+  );
+  const byAge = sortBy(users, (u) => u.age);
+  assertEquals(byAge.map((u) => u.name), ["Ada", "Grace", "Alan"]);
+  assertEquals(byAge[0] === users[0], true);
+  assertEquals(Object.isFrozen(byAge), true);
+
+  const desc = sortBy(users, (u) => u.name, "desc");
+  assertEquals(desc.map((u) => u.name), ["Grace", "Alan", "Ada"]);
+});
+
+Deno.test("sortBy - already sorted returns the original", () => {
+  const numbers = frozenArrayOf(1, 2, 2, 3);
+  assertEquals(sortBy(numbers, (n) => n) === numbers, true);
+});
+
+// =============================================================================
+// Map Operations
+// =============================================================================
+
+Deno.test("withEntry - sets an entry and keeps the others", () => {
+  const scores = frozenMap([["ada", { best: 10 }]]);
+  const next = withEntry(scores, "bob", { best: 3 });
+
+  assertEquals([...next.keys()], ["ada", "bob"]);
+  assertEquals(next.get("ada") === scores.get("ada"), true);
+  assertEquals(scores.has("bob"), false);
+  assertEquals(isFrozen(next), true);
+  assertThrows(() => (next as any).set("eve", { best: 1 }), TypeError);
+});
+
+Deno.test("withEntry - same value returns the original", () => {
+  const scores = frozenMap([["ada", 10]]);
+  assertEquals(withEntry(scores, "ada", 10) === scores, true);
+});
+
+Deno.test("withEntry - new keys are frozen in place, so they still find the entry", () => {
+  const key = { id: 1 };
+  const next = withEntry(frozenMap<object, number>([]), key, 1);
+  assertEquals(next.get(key), 1);
+  assertEquals(Object.isFrozen(key), true);
+
+  const bytes = new Uint8Array([1]);
+  assertThrows(() => withEntry(frozenMap<object, number>([]), bytes, 1), TypeError, "Uint8Array key");
+  const view = readonlyBinary(bytes);
+  assertEquals(withEntry(frozenMap<object, number>([]), view, 1).get(view), 1);
+});
+
+Deno.test("withoutKey - removes an entry", () => {
+  const scores = frozenMap([["ada", 10], ["bob", 3]]);
+  const next = withoutKey(scores, "bob");
+  assertEquals([...next.keys()], ["ada"]);
+  assertEquals(isFrozen(next), true);
+  assertEquals(withoutKey(scores, "eve") === scores, true);
+});
+
+Deno.test("mapValues - transforms values and keeps keys", () => {
+  const carts = frozenMap([["ada", { items: [1, 2] }], ["bob", { items: [] as number[] }]]);
+  const totals = mapValues(carts, (cart) => cart.items.length);
+  assertEquals([...totals], [["ada", 2], ["bob", 0]]);
+  assertEquals(isFrozen(totals), true);
+  assertEquals(mapValues(carts, (cart) => cart) === carts, true);
+});
+
+// =============================================================================
+// Set Operations
+// =============================================================================
+
+Deno.test("union - adds members of the second Set", () => {
+  const a = frozenSetOf("a", "b");
+  const result = union(a, frozenSetOf("b", "c"));
+  assertEquals([...result], ["a", "b", "c"]);
+  assertEquals(isFrozen(result), true);
+  assertEquals(union(a, frozenSetOf("a")) === a, true);
+  assertThrows(() => union(new Set<object>(), new Set([new Uint8Array()])), TypeError, "Uint8Array member");
+});
+
+Deno.test("intersection - keeps shared members", () => {
+  const a = frozenSetOf("a", "b");
+  assertEquals([...intersection(a, frozenSetOf("b", "c"))], ["b"]);
+  assertEquals(intersection(a, frozenSetOf("a", "b", "c")) === a, true);
+});
+
+Deno.test("difference - drops members of the second Set", () => {
+  const a = frozenSetOf("a", "b");
+  const result = difference(a, frozenSetOf("b", "c"));
+  assertEquals([...result], ["a"]);
+  assertEquals(isFrozen(result), true);
+  assertEquals(difference(a, frozenSetOf("c")) === a, true);
+});
@@ -0,0 +1,96 @@
+/**
+ * Flash-Freeze Global Configuration
+ *
+ * Process-wide switches that apply to every call. Meant to be set once at
+ * startup, before any data is frozen.
+ *
+ * @module
+ */
+
+import type { OpaquePolicy } from "./opaque.ts";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Whether freezing is enforced at runtime:
+ *
+ * - `"development"`: every freeze happens.
+ * - `"production"`: `freeze`, `frozenCopy`, the builders and the other
+ *   freeze helpers return their input (or copy) without freezing it, still
+ *   typed `Frozen<T>`, and `assertFrozen` passes. `harden` and `lockdown`
+ *   keep freezing, since they guard against tampering rather than bugs.
+ */
+export type FreezeMode = "development" | "production";
+
+/**
+ * Library-wide settings.
+ */
+export interface FlashFreezeConfig {
+  /**
+   * Honor the deprecated string-keyed `freeze()` method (`Freezable`)
+   * in addition to `[FREEZE]()`. Defaults to `true`; set it to `false` once
+   * your own types have moved to the symbol, so unrelated objects that
+   * happen to have a `freeze` method are frozen generically.
+   */
+  readonly legacyFreezeMethod: boolean;
+
+  /**
+   * How WeakMaps, WeakSets, WeakRefs and Promises are treated. Defaults to
+   * `"reference"`. `freeze` and `frozenCopy` can override it per call;
+   * the validation utilities always follow this setting.
+   */
+  readonly opaque: OpaquePolicy;
+
+  /**
+   * Defaults to `"development"`. Switch to `"production"` once tests and
+   * development builds have shown that nothing writes to frozen data, to
+   * save the cost of freezing.
+   */
+  readonly mode: FreezeMode;
+}
+
+let current: FlashFreezeConfig = Object.freeze({
+  legacyFreezeMethod: true,
+  opaque: "reference",
+  mode: "development",
+});
+
+/**
+ * Change library-wide settings. Unspecified settings keep their value.
+ *
+ * @param changes - Settings to change
+ * @returns The complete configuration now in effect
+ *
+ * @example
+ * ```ts
+ * configure({ legacyFreezeMethod: false });
+ * configure({ mode: "production" });
+ * ```
+ */
+export function configure(changes: Partial<FlashFreezeConfig>): FlashFreezeConfig {
+  current = Object.freeze({ ...current, ...changes });
+  return current;
+}
+
+/**
+ * Get the configuration currently in effect.
+ *
+ * @returns Frozen configuration object
+ */
+export function getConfig(): FlashFreezeConfig {
+  return current;
+}
+
+/**
+ * Check whether freezing is currently skipped (`mode: "production"`).
+ *
+ * @example
+ * ```ts
+ * if (!isProduction()) console.debug(countFrozenObjects(state));
+ * ```
+ */
+export function isProduction(): boolean {
+  return current.mode === "production";
+}
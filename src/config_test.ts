@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { configure, getConfig, isProduction } from "./config.ts";
+
+Deno.test("getConfig - defaults honor the legacy freeze method", () => {
+  assertEquals(getConfig().legacyFreezeMethod, true);
+});
+
+Deno.test("getConfig - opaque containers are passed by reference by default", () => {
+  assertEquals(getConfig().opaque, "reference");
+});
+
+Deno.test("configure - changes only the given settings and returns the result", () => {
+  const before = getConfig();
+  try {
+    const after = configure({ legacyFreezeMethod: false });
+    assertEquals(after.legacyFreezeMethod, false);
+    assertEquals(getConfig(), after);
+  } finally {
+    configure(before);
+  }
+});
+
+Deno.test("getConfig - returned configuration is frozen", () => {
+  assertThrows(() => {
+    (getConfig() as any).legacyFreezeMethod = false;
+  }, TypeError);
+});
+
+Deno.test("getConfig - development mode by default", () => {
+  assertEquals(getConfig().mode, "development");
+  assertEquals(isProduction(), false);
+});
+
+Deno.test("isProduction - follows the configured mode", () => {
+  configure({ mode: "production" });
+  try {
+    assertEquals(isProduction(), true);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
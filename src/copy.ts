@@ -7,8 +7,42 @@
  * @module
  */
 
-import { freeze } from "./freeze.ts";
+import { isBinary, readonlyBinary } from "./binary.ts";
+import { getConfig } from "./config.ts";
+import { freeze, FreezeError } from "./freeze.ts";
+import type { AccessorPolicy } from "./freeze.ts";
+import { primitiveOf } from "./objects.ts";
+import { isOpaque, readonlyOpaque } from "./opaque.ts";
+import type { OpaquePolicy } from "./opaque.ts";
+import { getTypeHandler } from "./registry.ts";
 import type { Frozen } from "./types.ts";
+import { CLONE, isCloneable } from "./types.ts";
+import { isReadonlyView, unwrapView } from "./view.ts";
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for `frozenCopy()`.
+ */
+export interface CopyOptions {
+  /**
+   * What to do with own accessor properties of the original. Use
+   * `"materialize"` for snapshots of objects with getters, so the copy holds
+   * the values read at copy time instead of getters that still close over
+   * the original. Defaults to `"keep"`.
+   */
+  readonly accessors?: AccessorPolicy;
+
+  /**
+   * What to do with WeakMaps, WeakSets, WeakRefs and Promises, which can't
+   * be copied: share them (`"reference"`), share read-only facades over
+   * them (`"facade"`) or throw (`"throw"`). Defaults to the configured
+   * `opaque` policy.
+   */
+  readonly opaque?: OpaquePolicy;
+}
 
 // =============================================================================
 // Core Copy Function
@@ -27,7 +61,14 @@ import type { Frozen } from "./types.ts";
  * This is slower than `freeze()` because it must clone first.
  * If you don't need to preserve the original, use `freeze()` directly.
  *
+ * Enumerable getters of plain objects are always copied by value. Other
+ * own accessors are copied as accessors unless `accessors` says otherwise.
+ *
+ * WeakMaps, WeakSets, WeakRefs and Promises can't be copied; by default
+ * the copy shares them with the original (see `opaque`).
+ *
  * @param obj - Object to copy and freeze
+ * @param options - Accessor and opaque container policies
  * @returns Frozen deep copy (original unchanged)
  *
  * @example
@@ -38,11 +79,16 @@ import type { Frozen } from "./types.ts";
  * original.count = 1;           // OK - original is still mutable
  * console.log(snapshot.count);  // 0 - snapshot is unchanged
  * snapshot.count = 2;           // Error - snapshot is frozen
+ *
+ * const view = frozenCopy(viewModel, { accessors: "materialize" });
  * ```
  */
-export function frozenCopy<T>(obj: T): Frozen<T> {
-  const copy = deepClone(obj);
-  return freeze(copy);
+export function frozenCopy<T>(obj: T, options?: CopyOptions): Frozen<T> {
+  const accessors = options?.accessors ?? "keep";
+  const opaque = options?.opaque ?? getConfig().opaque;
+  const copy = deepClone(obj, new WeakMap(), new Map(), accessors, opaque);
+  // Cloneable results may carry accessors of their own
+  return freeze(copy, { accessors, opaque });
 }
 
 // =============================================================================
@@ -53,11 +99,26 @@ export function frozenCopy<T>(obj: T): Frozen<T> {
  * Create a deep clone of a value.
  * Handles all common JavaScript types.
  *
+ * Objects implementing `Cloneable` produce their own copy via `[CLONE]`,
+ * instances of registered types via their handler's `clone` hook.
+ * Binary data is copied straight into a read-only facade, since the clone
+ * is about to be frozen anyway; existing facades are shared, not copied.
+ *
  * @param value - Value to clone
  * @param visited - WeakMap for cycle detection
+ * @param buffers - Original buffer -> copied buffer, so cloned views that
+ *   shared a buffer still share one
+ * @param accessors - How own accessor properties are copied
+ * @param opaque - How opaque containers are copied
  * @returns Deep clone of the value
  */
-function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
+function deepClone<T>(
+  value: T,
+  visited = new WeakMap<object, unknown>(),
+  buffers = new Map<ArrayBufferLike, ArrayBuffer>(),
+  accessors: AccessorPolicy = "keep",
+  opaque: OpaquePolicy = "reference"
+): T {
   // Primitives pass through
   if (value === null || value === undefined) {
     return value;
@@ -80,6 +141,50 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
     return visited.get(obj) as T;
   }
 
+  // A read-only view is copied from the value it shows
+  if (isReadonlyView(obj)) {
+    const clone = deepClone(unwrapView(obj), visited, buffers, accessors, opaque);
+    visited.set(obj, clone);
+    return clone as T;
+  }
+
+  // Custom clone logic - children are cloned with the same visited map
+  if (isCloneable(obj)) {
+    const clone = obj[CLONE](<U>(child: U): U => deepClone(child, visited, buffers, accessors, opaque));
+    visited.set(obj, clone);
+    return clone as T;
+  }
+
+  // Handle TypedArray, DataView, ArrayBuffer
+  if (isBinary(obj)) {
+    const clone = readonlyBinary(obj, buffers);
+    visited.set(obj, clone);
+    return clone as T;
+  }
+
+  // Registered types come first, so a handler can override a built-in
+  const handler = getTypeHandler(obj);
+  if (handler?.clone) {
+    const clone = handler.clone(
+      obj,
+      <U>(child: U): U => deepClone(child, visited, buffers, accessors, opaque)
+    );
+    visited.set(obj, clone);
+    return clone as T;
+  }
+
+  // Handle WeakMap, WeakSet, WeakRef and Promise - their contents can't
+  // be reached, so they are shared rather than copied
+  if (handler === undefined && isOpaque(obj)) {
+    if (opaque === "throw") {
+      throw new FreezeError(
+        `Cannot copy ${Object.prototype.toString.call(obj).slice(8, -1)}: its contents are unreachable`,
+        obj
+      );
+    }
+    return (opaque === "facade" ? readonlyOpaque(obj) : obj) as T;
+  }
+
   // Handle Date
   if (obj instanceof Date) {
     return new Date(obj.getTime()) as T;
@@ -90,6 +195,17 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
     return new RegExp(obj.source, obj.flags) as T;
   }
 
+  // Handle URL, URLSearchParams and Headers - rebuilt from their contents
+  if (typeof URL !== "undefined" && obj instanceof URL) {
+    return new URL(obj.href) as T;
+  }
+  if (typeof URLSearchParams !== "undefined" && obj instanceof URLSearchParams) {
+    return new URLSearchParams(obj) as T;
+  }
+  if (typeof Headers !== "undefined" && obj instanceof Headers) {
+    return new Headers(obj) as T;
+  }
+
   // Handle Array
   if (Array.isArray(obj)) {
     const clone: unknown[] = [];
@@ -97,7 +213,7 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
 
     const len = obj.length;
     for (let i = 0; i < len; i++) {
-      clone[i] = deepClone(obj[i], visited);
+      clone[i] = deepClone(obj[i], visited, buffers, accessors, opaque);
     }
 
     return clone as T;
@@ -109,7 +225,10 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
     visited.set(obj, clone);
 
     for (const [key, val] of obj) {
-      clone.set(deepClone(key, visited), deepClone(val, visited));
+      clone.set(
+        deepClone(key, visited, buffers, accessors, opaque),
+        deepClone(val, visited, buffers, accessors, opaque)
+      );
     }
 
     return clone as T;
@@ -121,7 +240,7 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
     visited.set(obj, clone);
 
     for (const item of obj) {
-      clone.add(deepClone(item, visited));
+      clone.add(deepClone(item, visited, buffers, accessors, opaque));
     }
 
     return clone as T;
@@ -130,12 +249,15 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
   // Fast path: Plain objects (most common case)
   const proto = Object.getPrototypeOf(obj);
   if (proto === Object.prototype || proto === null) {
+    if (accessors === "reject") {
+      rejectAccessors(obj);
+    }
     const clone = proto === null ? Object.create(null) : {} as Record<string, unknown>;
     visited.set(obj, clone);
     const keys = Object.keys(obj as Record<string, unknown>);
     for (let i = 0; i < keys.length; i++) {
       const key = keys[i]!;
-      clone[key] = deepClone((obj as Record<string, unknown>)[key], visited);
+      clone[key] = deepClone((obj as Record<string, unknown>)[key], visited, buffers, accessors, opaque);
     }
     // Also clone symbol-keyed properties
     const symbols = Object.getOwnPropertySymbols(obj);
@@ -144,13 +266,24 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
       (clone as Record<symbol, unknown>)[sym] = deepClone(
         (obj as Record<symbol, unknown>)[sym],
         visited,
+        buffers,
+        accessors,
+        opaque,
       );
     }
     return clone as T;
   }
 
-  // Slow path: Objects with custom prototypes
-  const clone = Object.create(proto);
+  // Slow path: Objects with custom prototypes. An Error copy starts out as
+  // a real Error, so it keeps the internal slot `Error.isError` looks for;
+  // a boxed primitive's copy as a wrapper around the same primitive
+  const isError = obj instanceof Error;
+  const primitive = isError ? undefined : primitiveOf(obj);
+  const clone = isError
+    ? Object.setPrototypeOf(new Error(), proto)
+    : primitive !== undefined
+    ? Object.setPrototypeOf(Object(primitive), proto)
+    : Object.create(proto);
   visited.set(obj, clone);
 
   const propNames = Object.getOwnPropertyNames(obj);
@@ -163,7 +296,19 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
     if (descriptor) {
       if ("value" in descriptor) {
         // Mutate descriptor in-place (getOwnPropertyDescriptor returns a fresh object)
-        descriptor.value = deepClone(descriptor.value, visited);
+        descriptor.value = deepClone(descriptor.value, visited, buffers, accessors, opaque);
+      } else if (isError && key === "stack") {
+        // The engine's accessor would report the copy's own trace
+        Object.defineProperty(clone, key, {
+          value: (obj as Error).stack,
+          writable: true,
+          enumerable: descriptor.enumerable,
+          configurable: true,
+        });
+        continue;
+      } else if (accessors !== "keep") {
+        copyAccessor(obj, clone, key, descriptor, visited, buffers, accessors, opaque);
+        continue;
       }
       Object.defineProperty(clone, key, descriptor);
     }
@@ -179,7 +324,10 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
 
     if (descriptor) {
       if ("value" in descriptor) {
-        descriptor.value = deepClone(descriptor.value, visited);
+        descriptor.value = deepClone(descriptor.value, visited, buffers, accessors, opaque);
+      } else if (accessors !== "keep") {
+        copyAccessor(obj, clone, sym, descriptor, visited, buffers, accessors, opaque);
+        continue;
       }
       Object.defineProperty(clone, sym, descriptor);
     }
@@ -188,6 +336,54 @@ function deepClone<T>(value: T, visited = new WeakMap<object, unknown>()): T {
   return clone as T;
 }
 
+/**
+ * Throw if a plain object has an own accessor property.
+ */
+function rejectAccessors(obj: object): void {
+  const keys = Reflect.ownKeys(obj);
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i]!;
+    const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+    if (descriptor !== undefined && !("value" in descriptor)) {
+      throw new FreezeError(`Accessor property found at ${String(key)}`, obj, String(key));
+    }
+  }
+}
+
+/**
+ * Copy an accessor property under the "materialize" or "reject" policy.
+ * A materialized getter is read from the original, so it sees the original's state.
+ */
+function copyAccessor(
+  obj: object,
+  clone: object,
+  key: string | symbol,
+  descriptor: PropertyDescriptor,
+  visited: WeakMap<object, unknown>,
+  buffers: Map<ArrayBufferLike, ArrayBuffer>,
+  accessors: Exclude<AccessorPolicy, "keep">,
+  opaque: OpaquePolicy
+): void {
+  if (accessors === "reject") {
+    throw new FreezeError(`Accessor property found at ${String(key)}`, obj, String(key));
+  }
+
+  let value: unknown;
+  try {
+    value = descriptor.get?.call(obj);
+  } catch (error) {
+    throw new FreezeError(`Getter at ${String(key)} threw while materializing`, obj, String(key), {
+      cause: error,
+    });
+  }
+  Object.defineProperty(clone, key, {
+    value: deepClone(value, visited, buffers, accessors, opaque),
+    writable: true,
+    enumerable: descriptor.enumerable,
+    configurable: true,
+  });
+}
+
 // =============================================================================
 // Batch Copy Operations
 // =============================================================================
@@ -242,6 +438,7 @@ export function frozenCopyRecord<K extends string | number | symbol, V>(
  * Alias for `frozenCopy` with more semantic naming for temporal use cases.
  *
  * @param obj - Object to snapshot
+ * @param options - Accessor and opaque container policies
  * @returns Frozen snapshot
  *
  * @example
@@ -265,12 +462,13 @@ export const snapshot = frozenCopy;
  * Useful for creating an immutable history.
  *
  * @param states - Array of states to snapshot
+ * @param options - Accessor and opaque container policies
  * @returns Array of frozen snapshots
  */
-export function snapshotHistory<T>(states: T[]): Frozen<T>[] {
+export function snapshotHistory<T>(states: T[], options?: CopyOptions): Frozen<T>[] {
   const result: Frozen<T>[] = new Array(states.length);
   for (let i = 0; i < states.length; i++) {
-    result[i] = frozenCopy(states[i]);
+    result[i] = frozenCopy(states[i], options);
   }
   return result;
 }
@@ -1,5 +1,8 @@
 import { assertEquals, assertThrows } from "jsr:@std/assert";
 import { frozenCopy, frozenCopyAll, frozenCopyRecord, snapshot, snapshotHistory } from "./copy.ts";
+import { configure } from "./config.ts";
+import { FreezeError } from "./freeze.ts";
+import { CLONE } from "./types.ts";
 import { isFrozen } from "./validation.ts";
 
 // =============================================================================
@@ -41,6 +44,90 @@ Deno.test("frozenCopy - handles arrays", () => {
   assertEquals((copy as any)[2].a, 3);
 });
 
+Deno.test("frozenCopy - handles URL, URLSearchParams and Headers", () => {
+  const url = new URL("https://example.com/a?q=1");
+  const params = new URLSearchParams("x=1");
+  const headers = new Headers({ accept: "text/html" });
+  const copy = frozenCopy({ url, params, headers });
+
+  url.pathname = "/b";
+  params.set("x", "2");
+  headers.set("accept", "*/*");
+
+  assertEquals(copy.url.href, "https://example.com/a?q=1");
+  assertEquals(copy.params.get("x"), "1");
+  assertEquals(copy.headers.get("accept"), "text/html");
+  assertEquals(isFrozen(copy), true);
+});
+
+Deno.test("frozenCopy - handles Errors", () => {
+  class NotFound extends Error {
+    override name = "NotFound";
+  }
+  const original = new NotFound("missing", { cause: { id: 7 } });
+  const copy = frozenCopy(original);
+
+  assertEquals(copy instanceof NotFound, true);
+  assertEquals(copy.message, "missing");
+  assertEquals(copy.stack, original.stack);
+  assertEquals(copy.cause, { id: 7 });
+  assertEquals(copy.cause === original.cause, false);
+  assertEquals(isFrozen(copy), true);
+  assertEquals(Object.isFrozen(original), false);
+});
+
+Deno.test("frozenCopy - handles boxed primitives", () => {
+  const copy = frozenCopy({ s: new String("a"), n: new Number(1), b: new Boolean(false) });
+  assertEquals(copy.s instanceof String, true);
+  assertEquals(copy.s.valueOf(), "a");
+  assertEquals(copy.n.valueOf(), 1);
+  assertEquals(copy.b.valueOf(), false);
+});
+
+Deno.test("frozenCopy - boxed primitives keep their prototype and own properties", () => {
+  class Amount extends Number {
+    unit = "kg";
+  }
+  const forged = Object.assign(new Number(1), { valueOf: () => 42 });
+  const bare = Object.create(Number.prototype);
+  const copy = frozenCopy({ amount: new Amount(5), forged, big: Object(1n), bare });
+  assertEquals(copy.amount instanceof Amount, true);
+  assertEquals(Number.prototype.valueOf.call(copy.amount), 5);
+  assertEquals(copy.amount.unit, "kg");
+  assertEquals(Number.prototype.valueOf.call(copy.forged), 1);
+  assertEquals(copy.big.valueOf(), 1n);
+  assertEquals(copy.bare instanceof Number, true);
+  assertEquals(isFrozen(copy.amount), true);
+});
+
+Deno.test("frozenCopy - shares opaque containers by default", () => {
+  const cache = new WeakMap();
+  const pending = Promise.resolve(1);
+  const copy = frozenCopy({ cache, pending });
+  assertEquals(copy.cache, cache);
+  assertEquals(copy.pending, pending);
+  assertEquals(Object.isFrozen(cache), false);
+  assertEquals(isFrozen(copy), true);
+});
+
+Deno.test("frozenCopy - opaque: facade shares read-only facades", () => {
+  const key = {};
+  const cache = new WeakMap([[key, 1]]);
+  const copy = frozenCopy({ cache }, { opaque: "facade" });
+  assertEquals(copy.cache.get(key), 1);
+  assertThrows(() => (copy.cache as any).set(key, 2), TypeError);
+  cache.set(key, 3);
+  assertEquals(copy.cache.get(key), 3);
+});
+
+Deno.test("frozenCopy - opaque: throw rejects opaque containers", () => {
+  assertThrows(
+    () => frozenCopy({ seen: new WeakSet() }, { opaque: "throw" }),
+    FreezeError,
+    "Cannot copy WeakSet"
+  );
+});
+
 Deno.test("frozenCopy - handles Date", () => {
   const date = new Date("2025-01-01");
   const copy = frozenCopy(date);
@@ -68,6 +155,18 @@ Deno.test("frozenCopy - handles Set", () => {
   assertEquals(isFrozen(copy), true);
 });
 
+Deno.test("frozenCopy - copied Map and Set reject mutation, originals stay mutable", () => {
+  const map = new Map([["a", 1]]);
+  const set = new Set([1]);
+  const copy = frozenCopy({ map, set });
+  assertThrows(() => (copy.map as any).set("b", 2), TypeError);
+  assertThrows(() => (copy.set as any).add(2), TypeError);
+  map.set("b", 2);
+  set.add(2);
+  assertEquals(copy.map.size, 1);
+  assertEquals(copy.set.size, 1);
+});
+
 Deno.test("frozenCopy - handles circular references", () => {
   const obj: any = { a: 1 };
   obj.self = obj;
@@ -77,6 +176,73 @@ Deno.test("frozenCopy - handles circular references", () => {
   assertEquals((copy as any).self === copy, true);
 });
 
+Deno.test("frozenCopy - uses [CLONE] when present", () => {
+  class Doc {
+    cache = new Map<string, string>();
+    constructor(public body: { text: string }) {}
+    [CLONE](clone: <U>(value: U) => U): Doc {
+      return new Doc(clone(this.body));
+    }
+  }
+  const original = new Doc({ text: "hi" });
+  original.cache.set("stale", "x");
+  const copy = frozenCopy({ doc: original });
+  assertEquals(copy.doc instanceof Doc, true);
+  assertEquals(copy.doc.cache.size, 0);
+  assertEquals(copy.doc.body.text, "hi");
+  assertEquals(copy.doc.body === original.body, false);
+  assertEquals(isFrozen(copy), true);
+});
+
+Deno.test("frozenCopy - handles TypedArrays with shared buffers", () => {
+  const buffer = new ArrayBuffer(4);
+  const original = { bytes: new Uint8Array(buffer), view: new DataView(buffer) };
+  const copy = frozenCopy(original);
+  assertEquals(isFrozen(copy), true);
+  assertEquals(copy.bytes.buffer === copy.view.buffer, true);
+  original.bytes[0] = 7;
+  assertEquals(copy.bytes[0], 0);
+  assertThrows(() => {
+    (copy.bytes as any)[0] = 1;
+  }, TypeError);
+});
+
+class Counter {
+  count = 0;
+  constructor() {
+    const state = { label: "clicks" };
+    Object.defineProperty(this, "label", { get: () => state.label, enumerable: true });
+    Object.defineProperty(this, "state", { value: state });
+  }
+}
+
+Deno.test("frozenCopy - keeps accessors by default", () => {
+  const original = new Counter();
+  const copy = frozenCopy(original);
+  (original as any).state.label = "taps";
+  assertEquals((copy as any).label, "taps");
+});
+
+Deno.test("frozenCopy - materializes accessors into fixed values", () => {
+  const original = new Counter();
+  const copy = frozenCopy(original, { accessors: "materialize" });
+  (original as any).state.label = "taps";
+  assertEquals((copy as any).label, "clicks");
+  assertEquals(Object.getOwnPropertyDescriptor(copy, "label")!.writable, false);
+  assertEquals(copy instanceof Counter, true);
+  assertEquals(isFrozen(copy), true);
+});
+
+Deno.test("frozenCopy - rejects accessors on request", () => {
+  const plain = {
+    get total() {
+      return 1;
+    },
+  };
+  assertThrows(() => frozenCopy(plain, { accessors: "reject" }), FreezeError, "total");
+  assertThrows(() => frozenCopy(new Counter(), { accessors: "reject" }), FreezeError, "label");
+});
+
 Deno.test("frozenCopy - handles primitives", () => {
   assertEquals(frozenCopy(42) as any, 42);
   assertEquals(frozenCopy("str") as any, "str");
@@ -150,3 +316,20 @@ Deno.test("snapshotHistory - snapshots are independent of originals", () => {
   states[0]!.count = 99;
   assertEquals((history[0] as any).count, 0);
 });
+
+// =============================================================================
+// Production mode
+// =============================================================================
+
+Deno.test("frozenCopy - production mode still copies, without freezing", () => {
+  configure({ mode: "production" });
+  try {
+    const original = { nested: { a: 1 } };
+    const copy = frozenCopy(original);
+    assertEquals(copy, original);
+    assertEquals(copy.nested === original.nested, false);
+    assertEquals(Object.isFrozen(copy), false);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
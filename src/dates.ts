@@ -0,0 +1,282 @@
+/**
+ * Flash-Freeze Date Helpers
+ *
+ * Frozen dates are locked: their setters throw. These helpers do the
+ * arithmetic instead, always returning a new frozen Date and leaving the
+ * input untouched.
+ *
+ * Calendar units (days, months, years) follow local time, like the Date
+ * setters they replace. Fixed units (milliseconds through hours) are plain
+ * timestamp offsets.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import type { Frozen, ReadonlyDate } from "./types.ts";
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+/**
+ * Create a frozen Date.
+ *
+ * @param value - Timestamp, date string or existing date (defaults to now)
+ * @returns Frozen date
+ *
+ * @example
+ * ```ts
+ * const createdAt = frozenDate();
+ * const epoch = frozenDate(0);
+ * const release = frozenDate("2025-06-01T00:00:00Z");
+ * ```
+ */
+export function frozenDate(value?: number | string | ReadonlyDate): Frozen<Date> {
+  if (value === undefined) {
+    return freeze(new Date());
+  }
+  return freeze(new Date(typeof value === "object" ? value.getTime() : value));
+}
+
+/**
+ * Copy a date, apply a change to the copy, and freeze it.
+ */
+function derive(date: ReadonlyDate, update: (draft: Date) => void): Frozen<Date> {
+  const draft = new Date(date.getTime());
+  update(draft);
+  return freeze(draft);
+}
+
+/**
+ * Move a draft to the given year and month, clamping the day of the month
+ * so that Jan 31 + 1 month lands on the last day of February instead of
+ * rolling over into March.
+ */
+function setYearMonthClamped(draft: Date, year: number, month: number): void {
+  const day = draft.getDate();
+  draft.setDate(1);
+  draft.setFullYear(year, month);
+  const probe = new Date(draft.getTime());
+  probe.setMonth(probe.getMonth() + 1, 0);
+  draft.setDate(Math.min(day, probe.getDate()));
+}
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+/**
+ * Add milliseconds to a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Milliseconds to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusMilliseconds(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return frozenDate(date.getTime() + amount);
+}
+
+/**
+ * Add seconds to a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Seconds to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusSeconds(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return frozenDate(date.getTime() + amount * MS_PER_SECOND);
+}
+
+/**
+ * Add minutes to a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Minutes to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusMinutes(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return frozenDate(date.getTime() + amount * MS_PER_MINUTE);
+}
+
+/**
+ * Add hours to a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Hours to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusHours(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return frozenDate(date.getTime() + amount * MS_PER_HOUR);
+}
+
+/**
+ * Add calendar days to a date.
+ * Keeps the local wall-clock time across daylight saving changes.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Days to add (may be negative)
+ * @returns New frozen date
+ *
+ * @example
+ * ```ts
+ * const due = plusDays(order.placedAt, 14);
+ * ```
+ */
+export function plusDays(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setDate(draft.getDate() + amount));
+}
+
+/**
+ * Add calendar weeks to a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Weeks to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusWeeks(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return plusDays(date, amount * 7);
+}
+
+/**
+ * Add calendar months to a date.
+ * The day of the month is clamped: Jan 31 plus one month is Feb 28 (or 29).
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Months to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusMonths(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return derive(date, (draft) =>
+    setYearMonthClamped(draft, draft.getFullYear(), draft.getMonth() + amount)
+  );
+}
+
+/**
+ * Add calendar years to a date.
+ * Feb 29 plus one year is Feb 28.
+ *
+ * @param date - Date to start from (not modified)
+ * @param amount - Years to add (may be negative)
+ * @returns New frozen date
+ */
+export function plusYears(date: ReadonlyDate, amount: number): Frozen<Date> {
+  return plusMonths(date, amount * 12);
+}
+
+// =============================================================================
+// Field Replacement
+// =============================================================================
+
+/**
+ * Replace the year of a date.
+ * Feb 29 moved to a non-leap year becomes Feb 28.
+ *
+ * @param date - Date to start from (not modified)
+ * @param year - Full year, e.g. 2025
+ * @returns New frozen date
+ *
+ * @example
+ * ```ts
+ * const nextRenewal = withYear(subscription.renewsAt, 2026);
+ * ```
+ */
+export function withYear(date: ReadonlyDate, year: number): Frozen<Date> {
+  return derive(date, (draft) => setYearMonthClamped(draft, year, draft.getMonth()));
+}
+
+/**
+ * Replace the month of a date.
+ * The day of the month is clamped to the length of the new month.
+ *
+ * @param date - Date to start from (not modified)
+ * @param month - Zero-based month (0 = January), as with `Date.prototype.setMonth`
+ * @returns New frozen date
+ */
+export function withMonth(date: ReadonlyDate, month: number): Frozen<Date> {
+  return derive(date, (draft) => setYearMonthClamped(draft, draft.getFullYear(), month));
+}
+
+/**
+ * Replace the day of the month of a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param day - Day of the month (1-31); out-of-range values roll over like `setDate`
+ * @returns New frozen date
+ */
+export function withDay(date: ReadonlyDate, day: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setDate(day));
+}
+
+/**
+ * Replace the hours of a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param hours - Hours (0-23)
+ * @returns New frozen date
+ */
+export function withHours(date: ReadonlyDate, hours: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setHours(hours));
+}
+
+/**
+ * Replace the minutes of a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param minutes - Minutes (0-59)
+ * @returns New frozen date
+ */
+export function withMinutes(date: ReadonlyDate, minutes: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setMinutes(minutes));
+}
+
+/**
+ * Replace the seconds of a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param seconds - Seconds (0-59)
+ * @returns New frozen date
+ */
+export function withSeconds(date: ReadonlyDate, seconds: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setSeconds(seconds));
+}
+
+/**
+ * Replace the milliseconds of a date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param milliseconds - Milliseconds (0-999)
+ * @returns New frozen date
+ */
+export function withMilliseconds(date: ReadonlyDate, milliseconds: number): Frozen<Date> {
+  return derive(date, (draft) => draft.setMilliseconds(milliseconds));
+}
+
+/**
+ * Replace the time of day, keeping the calendar date.
+ *
+ * @param date - Date to start from (not modified)
+ * @param hours - Hours (0-23)
+ * @param minutes - Minutes (0-59)
+ * @param seconds - Seconds (0-59)
+ * @param milliseconds - Milliseconds (0-999)
+ * @returns New frozen date
+ *
+ * @example
+ * ```ts
+ * const startOfDay = withTimeOfDay(event.at, 0);
+ * ```
+ */
+export function withTimeOfDay(
+  date: ReadonlyDate,
+  hours: number,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0
+): Frozen<Date> {
+  return derive(date, (draft) => draft.setHours(hours, minutes, seconds, milliseconds));
+}
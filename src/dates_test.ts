@@ -0,0 +1,145 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+    frozenDate,
+    plusDays,
+    plusHours,
+    plusMilliseconds,
+    plusMinutes,
+    plusMonths,
+    plusSeconds,
+    plusWeeks,
+    plusYears,
+    withDay,
+    withHours,
+    withMilliseconds,
+    withMinutes,
+    withMonth,
+    withSeconds,
+    withTimeOfDay,
+    withYear,
+} from "./dates.ts";
+import { isFrozen } from "./validation.ts";
+
+// =============================================================================
+// frozenDate
+// =============================================================================
+
+Deno.test("frozenDate - creates frozen date from timestamp", () => {
+  const date = frozenDate(0);
+  assertEquals(isFrozen(date), true);
+  assertEquals(date.getTime(), 0);
+});
+
+Deno.test("frozenDate - creates frozen date from string", () => {
+  const date = frozenDate("2025-06-01T00:00:00Z");
+  assertEquals(date.toISOString(), "2025-06-01T00:00:00.000Z");
+});
+
+Deno.test("frozenDate - copies an existing date", () => {
+  const source = new Date(1000);
+  const date = frozenDate(source);
+  source.setTime(2000);
+  assertEquals(date.getTime(), 1000);
+});
+
+Deno.test("frozenDate - defaults to now", () => {
+  const before = Date.now();
+  const date = frozenDate();
+  assertEquals(date.getTime() >= before, true);
+});
+
+Deno.test("frozenDate - setters throw", () => {
+  const date = frozenDate(0);
+  assertThrows(() => (date as any).setTime(1), TypeError);
+  assertThrows(() => (date as any).setFullYear(2000), TypeError);
+  assertEquals(date.getTime(), 0);
+});
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+Deno.test("plusMilliseconds/Seconds/Minutes/Hours - offset the timestamp", () => {
+  const date = frozenDate(0);
+  assertEquals(plusMilliseconds(date, 5).getTime(), 5);
+  assertEquals(plusSeconds(date, 2).getTime(), 2000);
+  assertEquals(plusMinutes(date, 1).getTime(), 60_000);
+  assertEquals(plusHours(date, -1).getTime(), -3_600_000);
+});
+
+Deno.test("plusDays - adds calendar days and returns a new frozen date", () => {
+  const date = frozenDate(new Date(2024, 0, 30, 12));
+  const later = plusDays(date, 3);
+  assertEquals(isFrozen(later), true);
+  assertEquals(later.getMonth(), 1);
+  assertEquals(later.getDate(), 2);
+  assertEquals(later.getHours(), 12);
+  assertEquals(date.getDate(), 30);
+});
+
+Deno.test("plusDays - accepts mutable dates without modifying them", () => {
+  const date = new Date(2024, 0, 1);
+  plusDays(date, 1);
+  assertEquals(date.getDate(), 1);
+  assertEquals(Object.isFrozen(date), false);
+});
+
+Deno.test("plusWeeks - adds seven days per week", () => {
+  assertEquals(plusWeeks(new Date(2024, 0, 1), 2).getDate(), 15);
+});
+
+Deno.test("plusMonths - clamps to the end of shorter months", () => {
+  const date = plusMonths(new Date(2024, 0, 31), 1);
+  assertEquals(date.getMonth(), 1);
+  assertEquals(date.getDate(), 29);
+});
+
+Deno.test("plusMonths - crosses year boundaries", () => {
+  const date = plusMonths(new Date(2024, 10, 15), 3);
+  assertEquals(date.getFullYear(), 2025);
+  assertEquals(date.getMonth(), 1);
+  assertEquals(date.getDate(), 15);
+});
+
+Deno.test("plusYears - moves Feb 29 to Feb 28", () => {
+  const date = plusYears(new Date(2024, 1, 29), 1);
+  assertEquals(date.getFullYear(), 2025);
+  assertEquals(date.getMonth(), 1);
+  assertEquals(date.getDate(), 28);
+});
+
+// =============================================================================
+// Field Replacement
+// =============================================================================
+
+Deno.test("withYear - replaces the year", () => {
+  const date = withYear(new Date(2024, 5, 10), 2030);
+  assertEquals(isFrozen(date), true);
+  assertEquals(date.getFullYear(), 2030);
+  assertEquals(date.getMonth(), 5);
+  assertEquals(date.getDate(), 10);
+});
+
+Deno.test("withMonth - clamps the day of the month", () => {
+  const date = withMonth(new Date(2025, 2, 31), 3);
+  assertEquals(date.getMonth(), 3);
+  assertEquals(date.getDate(), 30);
+});
+
+Deno.test("withDay/withHours/withMinutes/withSeconds/withMilliseconds - replace single fields", () => {
+  const date = new Date(2025, 0, 1, 0, 0, 0, 0);
+  assertEquals(withDay(date, 9).getDate(), 9);
+  assertEquals(withHours(date, 7).getHours(), 7);
+  assertEquals(withMinutes(date, 30).getMinutes(), 30);
+  assertEquals(withSeconds(date, 15).getSeconds(), 15);
+  assertEquals(withMilliseconds(date, 250).getMilliseconds(), 250);
+});
+
+Deno.test("withTimeOfDay - keeps the calendar date", () => {
+  const date = withTimeOfDay(new Date(2025, 3, 5, 18, 45, 10, 5), 0);
+  assertEquals(date.getDate(), 5);
+  assertEquals(date.getHours(), 0);
+  assertEquals(date.getMinutes(), 0);
+  assertEquals(date.getSeconds(), 0);
+  assertEquals(date.getMilliseconds(), 0);
+});
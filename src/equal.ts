@@ -0,0 +1,352 @@
+/**
+ * Structural equality.
+ *
+ * `deepEqual(a, b)` compares two values by content: arrays, plain objects
+ * and class instances property by property (symbol keys included), Maps
+ * and Sets by their entries - object keys and members matched by content -
+ * and Dates, RegExps, URLs, Headers, Errors, boxed primitives and binary
+ * data by what they hold.
+ * Cycles are handled.
+ *
+ * Frozen values can't change, so the result for a pair of frozen objects
+ * is remembered: comparing two trees again, or two trees that share frozen
+ * subtrees with trees compared before, costs a lookup per shared pair.
+ * Only pairs whose whole compared contents are immutable are remembered.
+ *
+ * @module
+ */
+
+import { isBinary, unwrapBinary } from "./binary.ts";
+import { errorFields, primitiveOf } from "./objects.ts";
+import { isOpaque } from "./opaque.ts";
+import { getTypeHandler } from "./registry.ts";
+import type { BinaryData } from "./types.ts";
+import { isShallowFrozen } from "./validation.ts";
+import { unwrapView } from "./view.ts";
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+/** Frozen object -> frozen object compared with it -> result. */
+const RESULTS = new WeakMap<object, WeakMap<object, boolean>>();
+
+function remember(a: object, b: object, equal: boolean): void {
+  for (const [x, y] of [[a, b], [b, a]] as const) {
+    let results = RESULTS.get(x);
+    if (results === undefined) {
+      results = new WeakMap();
+      RESULTS.set(x, results);
+    }
+    results.set(y, equal);
+  }
+}
+
+/**
+ * State of one `deepEqual()` call.
+ */
+interface Comparison {
+  /** Pairs being compared -> their depth (the root pair is 1). */
+  readonly active: Map<object, Map<object, number>>;
+
+  depth: number;
+
+  /**
+   * Depth of the shallowest pair still being compared that the current
+   * result took to be equal, because a cycle led back to it.
+   */
+  assumed: number;
+
+  /** Set once the current result read something that can still change. */
+  mutable: boolean;
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function equalValues(a: unknown, b: unknown, c: Comparison): boolean {
+  // SameValueZero, like Map keys: NaN equals NaN, and 0 equals -0
+  if (a === b || (a !== a && b !== b)) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+    return false;
+  }
+  // Views are compared through to what they show, which can change
+  return equalObjects(unwrapView(a), unwrapView(b), c);
+}
+
+function equalObjects(a: object, b: object, c: Comparison): boolean {
+  if (a === b) {
+    return true;
+  }
+  const known = RESULTS.get(a)?.get(b);
+  if (known !== undefined) {
+    return known;
+  }
+  const activeDepth = c.active.get(a)?.get(b);
+  if (activeDepth !== undefined) {
+    c.assumed = Math.min(c.assumed, activeDepth);
+    return true;
+  }
+
+  const outerAssumed = c.assumed;
+  const outerMutable = c.mutable;
+  const depth = ++c.depth;
+  c.assumed = Infinity;
+  c.mutable = !isShallowFrozen(a) || !isShallowFrozen(b);
+
+  let pairs = c.active.get(a);
+  if (pairs === undefined) {
+    pairs = new Map();
+    c.active.set(a, pairs);
+  }
+  pairs.set(b, depth);
+
+  const equal = equalContents(a, b, c);
+
+  pairs.delete(b);
+  c.depth--;
+
+  // A false result holds whatever the pending pairs turn out to be, since
+  // taking them to be equal only ever makes more pairs equal. A true one
+  // only holds once every pair it relied on is settled.
+  const reliesOnOuter = c.assumed < depth;
+  if (!c.mutable && (!equal || !reliesOnOuter)) {
+    remember(a, b, equal);
+  }
+  c.assumed = Math.min(outerAssumed, reliesOnOuter ? c.assumed : Infinity);
+  c.mutable = outerMutable || c.mutable;
+  return equal;
+}
+
+function equalContents(a: object, b: object, c: Comparison): boolean {
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+
+  const children = getTypeHandler(a)?.children;
+  if (children) {
+    return equalLists([...children(a)], [...children(b)], c);
+  }
+  if (isBinary(a)) {
+    return equalBytes(a, b as BinaryData);
+  }
+  if (isOpaque(a)) {
+    return false;
+  }
+
+  if (Array.isArray(a)) {
+    if (a.length !== (b as unknown[]).length) return false;
+  } else if (a instanceof Map) {
+    if (!equalMaps(a, b as Map<unknown, unknown>, c)) return false;
+  } else if (a instanceof Set) {
+    if (!equalSets(a, b as Set<unknown>, c)) return false;
+  } else if (a instanceof Date) {
+    const timeA = a.getTime();
+    const timeB = (b as Date).getTime();
+    if (timeA !== timeB && !(timeA !== timeA && timeB !== timeB)) return false;
+  } else if (a instanceof RegExp) {
+    if (a.source !== (b as RegExp).source || a.flags !== (b as RegExp).flags) return false;
+  } else if (a instanceof URL || a instanceof URLSearchParams) {
+    if (a.toString() !== b.toString()) return false;
+  } else if (a instanceof Headers) {
+    if (!equalLists([...a], [...(b as Headers)], c)) return false;
+  } else if (a instanceof Error) {
+    // Their own fields aren't enumerable
+    if (!equalLists(errorFields(a), errorFields(b as Error), c)) return false;
+  } else if (
+    a instanceof Number ||
+    a instanceof String ||
+    a instanceof Boolean ||
+    a instanceof BigInt ||
+    a instanceof Symbol
+  ) {
+    // Undefined for both if they only inherit from a wrapper's prototype
+    if (!Object.is(primitiveOf(a), primitiveOf(b))) return false;
+  }
+
+  return equalProperties(a, b, c);
+}
+
+/**
+ * Compare own enumerable properties, string and symbol keyed, in any order.
+ */
+function equalProperties(a: object, b: object, c: Comparison): boolean {
+  const keysA = enumerableKeys(a);
+  const keysB = enumerableKeys(b);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+  for (let i = 0; i < keysA.length; i++) {
+    const key = keysA[i]!;
+    if (!Object.prototype.propertyIsEnumerable.call(b, key)) {
+      return false;
+    }
+    if (!equalValues(readProperty(a, key, c), readProperty(b, key, c), c)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function readProperty(obj: object, key: PropertyKey, c: Comparison): unknown {
+  const descriptor = Object.getOwnPropertyDescriptor(obj, key)!;
+  if ("value" in descriptor) {
+    return descriptor.value;
+  }
+  // A getter may return something else next time, frozen or not
+  c.mutable = true;
+  return Reflect.get(obj, key);
+}
+
+function enumerableKeys(obj: object): PropertyKey[] {
+  return Reflect.ownKeys(obj).filter((key) => Object.prototype.propertyIsEnumerable.call(obj, key));
+}
+
+function equalLists(a: readonly unknown[], b: readonly unknown[], c: Comparison): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (!equalValues(a[i], b[i], c)) return false;
+  }
+  return true;
+}
+
+/**
+ * Compare Maps in any order. Entries under the same key are compared
+ * directly; object keys found only in one Map are matched against the
+ * other's by content.
+ */
+function equalMaps(
+  a: ReadonlyMap<unknown, unknown>,
+  b: ReadonlyMap<unknown, unknown>,
+  c: Comparison
+): boolean {
+  if (a.size !== b.size) {
+    return false;
+  }
+  const unmatched: [unknown, unknown][] = [];
+  for (const [key, value] of a) {
+    if (b.has(key)) {
+      if (!equalValues(value, b.get(key), c)) return false;
+    } else if (key !== null && typeof key === "object") {
+      unmatched.push([key, value]);
+    } else {
+      return false;
+    }
+  }
+  if (unmatched.length === 0) {
+    return true;
+  }
+
+  const candidates: [unknown, unknown][] = [];
+  for (const entry of b) {
+    if (!a.has(entry[0])) candidates.push(entry);
+  }
+  return matchAll(unmatched, candidates, ([keyA, valueA], [keyB, valueB]) =>
+    equalValues(keyA, keyB, c) && equalValues(valueA, valueB, c)
+  );
+}
+
+/**
+ * Compare Sets in any order, matching object members found only in one
+ * Set against the other's by content.
+ */
+function equalSets(a: ReadonlySet<unknown>, b: ReadonlySet<unknown>, c: Comparison): boolean {
+  if (a.size !== b.size) {
+    return false;
+  }
+  const unmatched: unknown[] = [];
+  for (const item of a) {
+    if (b.has(item)) continue;
+    if (item === null || typeof item !== "object") return false;
+    unmatched.push(item);
+  }
+  if (unmatched.length === 0) {
+    return true;
+  }
+
+  const candidates: unknown[] = [];
+  for (const item of b) {
+    if (!a.has(item)) candidates.push(item);
+  }
+  return matchAll(unmatched, candidates, (x, y) => equalValues(x, y, c));
+}
+
+/**
+ * Pair every item with a distinct, equal candidate.
+ */
+function matchAll<T>(items: T[], candidates: T[], equal: (a: T, b: T) => boolean): boolean {
+  if (items.length !== candidates.length) {
+    return false;
+  }
+  for (const item of items) {
+    const index = candidates.findIndex((candidate) => equal(item, candidate));
+    if (index === -1) return false;
+    candidates.splice(index, 1);
+  }
+  return true;
+}
+
+function bytesOf(value: BinaryData): Uint8Array {
+  const source = unwrapBinary(value);
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+function equalBytes(a: BinaryData, b: BinaryData): boolean {
+  const bytesA = bytesOf(a);
+  const bytesB = bytesOf(b);
+  if (bytesA.length !== bytesB.length) {
+    return false;
+  }
+  for (let i = 0; i < bytesA.length; i++) {
+    if (bytesA[i] !== bytesB[i]) return false;
+  }
+  return true;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compare two values by structure and content.
+ *
+ * - Primitives compare like Map keys: `NaN` equals `NaN`, `0` equals `-0`.
+ * - Objects need the same prototype and equal own enumerable properties,
+ *   symbol-keyed ones included; arrays also the same length.
+ * - Maps and Sets are compared regardless of order; object keys and
+ *   members are matched by content.
+ * - Dates compare by time, RegExps by source and flags, URLs and
+ *   URLSearchParams by their string, Headers by their entries, and binary
+ *   data by type and bytes. Values of registered types compare by their
+ *   `children`.
+ * - Errors also compare by `name`, `message`, `cause` and an
+ *   AggregateError's `errors`; boxed primitives by the value they hold.
+ * - Functions, WeakMaps, WeakSets, WeakRefs and Promises are equal only
+ *   to themselves.
+ * - Read-only views compare as what they show.
+ *
+ * Results for pairs of frozen objects are cached, so comparing frozen
+ * trees that share subtrees with ones compared before is cheap.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if the values are structurally equal
+ *
+ * @example
+ * ```ts
+ * deepEqual(freeze({ tags: new Set(["a"]) }), { tags: new Set(["a"]) }); // true
+ *
+ * // Change detection: an updated tree shares most nodes with the old one
+ * if (!deepEqual(previous, next)) render(next);
+ * ```
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return equalValues(a, b, { active: new Map(), depth: 0, assumed: Infinity, mutable: false });
+}
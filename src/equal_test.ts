@@ -0,0 +1,179 @@
+import { assertEquals } from "jsr:@std/assert";
+import { readonlyBinary } from "./binary.ts";
+import { deepEqual } from "./equal.ts";
+import { Box, countChildren } from "./fixtures_test.ts";
+import { freeze } from "./freeze.ts";
+import { readonlyView } from "./view.ts";
+
+// =============================================================================
+// Values
+// =============================================================================
+
+Deno.test("deepEqual - primitives compare like Map keys", () => {
+  assertEquals(deepEqual(1, 1), true);
+  assertEquals(deepEqual(NaN, NaN), true);
+  assertEquals(deepEqual(0, -0), true);
+  assertEquals(deepEqual("1", 1), false);
+  assertEquals(deepEqual(null, undefined), false);
+});
+
+Deno.test("deepEqual - objects and arrays by content", () => {
+  assertEquals(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }), true);
+  assertEquals(deepEqual({ a: 1, b: 2 }, { b: 2, a: 1 }), true);
+  assertEquals(deepEqual({ a: 1 }, { a: 1, b: undefined }), false);
+  assertEquals(deepEqual([1, 2], [1, 2, 3]), false);
+  assertEquals(deepEqual([1], { 0: 1 }), false);
+});
+
+Deno.test("deepEqual - symbol keys count", () => {
+  const tag = Symbol("tag");
+  assertEquals(deepEqual({ [tag]: 1 }, { [tag]: 1 }), true);
+  assertEquals(deepEqual({ [tag]: 1 }, { [tag]: 2 }), false);
+  assertEquals(deepEqual({ [tag]: 1 }, {}), false);
+});
+
+Deno.test("deepEqual - class instances need the same prototype", () => {
+  class Point {
+    constructor(public x: number) {}
+  }
+  class Other {
+    constructor(public x: number) {}
+  }
+  assertEquals(deepEqual(new Point(1), new Point(1)), true);
+  assertEquals(deepEqual(new Point(1), new Other(1)), false);
+  assertEquals(deepEqual(new Point(1), { x: 1 }), false);
+});
+
+Deno.test("deepEqual - Maps with object keys, in any order", () => {
+  const a = new Map<unknown, number>([[{ id: 1 }, 1], ["k", 2]]);
+  const b = new Map<unknown, number>([["k", 2], [{ id: 1 }, 1]]);
+  assertEquals(deepEqual(a, b), true);
+  assertEquals(deepEqual(a, new Map<unknown, number>([["k", 2], [{ id: 1 }, 3]])), false);
+  assertEquals(deepEqual(a, new Map<unknown, number>([["k", 2], [{ id: 2 }, 1]])), false);
+});
+
+Deno.test("deepEqual - Sets with object members", () => {
+  assertEquals(deepEqual(new Set([1, { a: 1 }, { a: 2 }]), new Set([{ a: 2 }, 1, { a: 1 }])), true);
+  assertEquals(deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }])), false);
+  assertEquals(deepEqual(new Set([1]), new Set([2])), false);
+});
+
+Deno.test("deepEqual - Dates, RegExps, URLs and binary data", () => {
+  assertEquals(deepEqual(new Date(5), new Date(5)), true);
+  assertEquals(deepEqual(new Date(5), new Date(6)), false);
+  assertEquals(deepEqual(new Date(NaN), new Date(NaN)), true);
+  assertEquals(deepEqual(/a/g, /a/g), true);
+  assertEquals(deepEqual(/a/g, /a/i), false);
+  assertEquals(deepEqual(new URL("https://a.test/x"), new URL("https://a.test/x")), true);
+  assertEquals(deepEqual(new Uint8Array([1, 2]), readonlyBinary(new Uint8Array([1, 2]))), true);
+  assertEquals(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3])), false);
+  assertEquals(deepEqual(new Uint8Array([1, 2]), new Int8Array([1, 2])), false);
+});
+
+Deno.test("deepEqual - Errors by name, message, cause and errors", () => {
+  assertEquals(deepEqual(freeze(new Error("a")), freeze(new Error("a"))), true);
+  assertEquals(deepEqual(freeze(new Error("a")), freeze(new Error("b"))), false);
+  assertEquals(deepEqual(new Error("a", { cause: { id: 1 } }), new Error("a", { cause: { id: 1 } })), true);
+  assertEquals(deepEqual(new Error("a", { cause: 1 }), new Error("a", { cause: 2 })), false);
+  assertEquals(deepEqual(new Error("a", { cause: undefined }), new Error("a")), false);
+  assertEquals(deepEqual(new AggregateError([1], "a"), new AggregateError([1], "a")), true);
+  assertEquals(deepEqual(new AggregateError([1], "a"), new AggregateError([2], "a")), false);
+});
+
+Deno.test("deepEqual - boxed primitives by the value they hold", () => {
+  assertEquals(deepEqual(Object(1n), Object(1n)), true);
+  assertEquals(deepEqual(Object(1n), Object(2n)), false);
+  const sym = Symbol("s");
+  assertEquals(deepEqual(Object(sym), Object(sym)), true);
+  assertEquals(deepEqual(Object(sym), Object(Symbol("s"))), false);
+  assertEquals(deepEqual(new Number(1), new Number(2)), false);
+  // No internal slot: compared by properties
+  assertEquals(deepEqual(Object.create(Number.prototype), Object.create(Number.prototype)), true);
+  assertEquals(deepEqual(Object.create(Number.prototype), new Number(1)), false);
+});
+
+Deno.test("deepEqual - functions and opaque containers only equal themselves", () => {
+  const f = () => 1;
+  assertEquals(deepEqual({ f }, { f }), true);
+  assertEquals(deepEqual({ f }, { f: () => 1 }), false);
+  assertEquals(deepEqual(new WeakMap(), new WeakMap()), false);
+});
+
+Deno.test("deepEqual - views compare as what they show", () => {
+  const data = { a: [1, 2] };
+  assertEquals(deepEqual(readonlyView(data), { a: [1, 2] }), true);
+  data.a.push(3);
+  assertEquals(deepEqual(readonlyView(data), { a: [1, 2] }), false);
+});
+
+// =============================================================================
+// Cycles
+// =============================================================================
+
+Deno.test("deepEqual - cycles", () => {
+  const a: any = { name: "a" };
+  a.self = a;
+  const b: any = { name: "a" };
+  b.self = b;
+  assertEquals(deepEqual(a, b), true);
+
+  const c: any = { name: "a", self: { name: "a", self: null } };
+  c.self.self = c;
+  assertEquals(deepEqual(a, c), true);
+
+  const d: any = { name: "a" };
+  d.self = { name: "b", self: d };
+  assertEquals(deepEqual(a, d), false);
+});
+
+Deno.test("deepEqual - frozen cycles give the same answer twice", () => {
+  const a: any = { items: new Set() };
+  a.items.add(a);
+  const b: any = { items: new Set() };
+  b.items.add(b);
+  freeze(a);
+  freeze(b);
+  assertEquals(deepEqual(a, b), true);
+  assertEquals(deepEqual(a, b), true);
+  assertEquals(deepEqual(a.items, b.items), true);
+});
+
+// =============================================================================
+// Caching
+// =============================================================================
+
+Deno.test("deepEqual - results for frozen pairs are cached", () => {
+  const calls = countChildren(() => {
+    const a = Object.freeze(new Box(Object.freeze({ n: 1 })));
+    const b = Object.freeze(new Box(Object.freeze({ n: 1 })));
+    assertEquals(deepEqual(a, b), true);
+    assertEquals(deepEqual(a, b), true);
+    assertEquals(deepEqual(b, a), true);
+    assertEquals(deepEqual({ x: a }, { x: b }), true);
+  });
+  assertEquals(calls, 2);
+});
+
+Deno.test("deepEqual - mutable pairs are compared each time", () => {
+  const calls = countChildren(() => {
+    const a = new Box({ n: 1 });
+    const b = Object.freeze(new Box({ n: 1 }));
+    assertEquals(deepEqual(a, b), true);
+    (a.value as { n: number }).n = 2;
+    assertEquals(deepEqual(a, b), false);
+  });
+  assertEquals(calls, 4);
+});
+
+Deno.test("deepEqual - getters are read each time", () => {
+  let n = 1;
+  const a = Object.freeze({
+    get n() {
+      return n;
+    },
+  });
+  const b = Object.freeze({ n: 1 });
+  assertEquals(deepEqual(a, b), true);
+  n = 2;
+  assertEquals(deepEqual(a, b), false);
+});
@@ -0,0 +1,66 @@
+/**
+ * Fixtures shared by the test files. Named like a test file, so that it
+ * stays out of the published package.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import { registerType, unregisterType } from "./registry.ts";
+import type { Frozen } from "./types.ts";
+
+// =============================================================================
+// Application State
+// =============================================================================
+
+export interface State {
+  users: { name: string; age: number; nickname?: string }[];
+  settings: { theme: string; fontSize: number; flags: { beta: boolean } };
+  tags: Set<string>;
+  scores: Map<string, { best: number }>;
+  updated: Date;
+  extra?: { notes: string[] };
+}
+
+/**
+ * A fresh frozen state with nested objects, arrays, a Set, a Map and a
+ * Date, for the copy-on-write tests.
+ */
+export function makeState(): Frozen<State> {
+  return freeze({
+    users: [{ name: "Ada", age: 36 }, { name: "Alan", age: 41 }],
+    settings: { theme: "dark", fontSize: 12, flags: { beta: false } },
+    tags: new Set(["a"]),
+    scores: new Map([["ada", { best: 10 }], ["alan", { best: 7 }]]),
+    updated: new Date(0),
+  });
+}
+
+// =============================================================================
+// Registered Types
+// =============================================================================
+
+/** A registered container with a single child, for the caching tests. */
+export class Box {
+  constructor(readonly value: unknown) {}
+}
+
+/**
+ * Run `fn` with `Box` registered, and count how often its children were
+ * asked for - once per box actually traversed.
+ */
+export function countChildren(fn: () => void): number {
+  let calls = 0;
+  registerType(Box, {
+    children: (box) => {
+      calls++;
+      return [box.value];
+    },
+  });
+  try {
+    fn();
+  } finally {
+    unregisterType(Box);
+  }
+  return calls;
+}
@@ -4,8 +4,177 @@
  * @module
  */
 
-import type { Frozen } from "./types.ts";
-import { isFreezable } from "./types.ts";
+import { isBinary, readonlyBinary } from "./binary.ts";
+import { isFacade, isImmobile, isUnlockable, lock, lockableCopy, requiresLock } from "./lock.ts";
+import { typeName } from "./objects.ts";
+import { isOpaque, isReadonlyOpaque, readonlyOpaque } from "./opaque.ts";
+import type { OpaquePolicy } from "./opaque.ts";
+import {
+  childPath,
+  indexPath,
+  mapKeyPath,
+  mapValuePath,
+  propertyPath,
+  setItemPath,
+} from "./path.ts";
+import { getConfig, isProduction } from "./config.ts";
+import { getTypeHandler } from "./registry.ts";
+import { findUncheckedPath } from "./validation.ts";
+import type {
+  BinaryData,
+  DeepReadonlyToDepth,
+  Freezable,
+  Frozen,
+  IntegrityLevel,
+  NonExtensible,
+  Sealed,
+  SelfFreezing,
+} from "./types.ts";
+import { FREEZE, isFreezable, isSelfFreezing } from "./types.ts";
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for `freeze()`.
+ */
+export interface FreezeOptions {
+  /**
+   * Maximum nesting depth to freeze. The root is depth 0, so `depth: 0` is
+   * a shallow `Object.freeze` and `depth: 1` also freezes direct children.
+   * Objects below the limit are left untouched. Defaults to `Infinity`.
+   */
+  readonly depth?: number;
+
+  /**
+   * Return true to leave a value and everything below it mutable.
+   * Called for every object found in the graph (the root has path `""`).
+   * A skipped object that is also reachable through a non-skipped path
+   * still gets frozen through that path.
+   */
+  readonly skip?: (value: object, path: string) => boolean;
+
+  /**
+   * Called once for every object the traversal is about to freeze.
+   */
+  readonly onVisit?: (value: object, path: string, depth: number) => void;
+
+  /**
+   * Whether functions found in the graph are frozen along with their own
+   * properties (statics such as `handler.meta`). Defaults to `"ignore"`:
+   * functions are left as they are, except a function passed as the root.
+   */
+  readonly functions?: FunctionPolicy;
+
+  /**
+   * What to do with own accessor (getter/setter) properties.
+   * Defaults to `"keep"`.
+   */
+  readonly accessors?: AccessorPolicy;
+
+  /**
+   * What to do with WeakMaps, WeakSets, WeakRefs and Promises, whose
+   * contents can't be reached. Defaults to the configured `opaque` policy.
+   */
+  readonly opaque?: OpaquePolicy;
+
+  /**
+   * Throw a `FreezeError` naming the path instead of leaving anything
+   * mutable: skipped values, values below the depth limit, getters that
+   * throw, built-ins that can't be locked, opaque containers passed by
+   * reference, and anything the result still fails `isFrozen` on (a Proxy
+   * whose traps lie, a getter that returns a new object on every read).
+   * Functions default to `"freeze"`. The final check traverses the result
+   * once more, so strict freezing is slower.
+   */
+  readonly strict?: boolean;
+}
+
+/**
+ * Options for `deepSeal()` and `deepPreventExtensions()`.
+ */
+export type SealOptions = Pick<FreezeOptions, "depth" | "skip" | "onVisit" | "functions">;
+
+/**
+ * How `freeze()` treats functions it finds in the graph:
+ *
+ * - `"ignore"`: leave them mutable and don't look inside.
+ * - `"freeze"`: freeze each function and its own properties, but not its
+ *   `prototype` object, which its instances inherit from.
+ * - `"prototype"`: also freeze each function's `prototype` object and
+ *   the methods on it. A base class's prototype is only frozen if it is
+ *   reachable some other way.
+ */
+export type FunctionPolicy = "ignore" | "freeze" | "prototype";
+
+/**
+ * How freezing and copying treat own accessor properties:
+ *
+ * - `"keep"`: leave them as accessors. `freeze()` still freezes whatever
+ *   object a getter currently returns; the getter itself keeps running
+ *   after the freeze.
+ * - `"materialize"`: call each getter once and replace the accessor with a
+ *   data property holding the result, so the frozen value can't change
+ *   later. Setter-only accessors become `undefined`.
+ * - `"reject"`: throw a `FreezeError` naming the first accessor found.
+ *
+ * Only own properties are affected; getters defined on a class prototype
+ * compute from the (frozen) instance and are left alone.
+ */
+export type AccessorPolicy = "keep" | "materialize" | "reject";
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error thrown when a value can't be frozen as requested.
+ */
+export class FreezeError extends Error {
+  constructor(
+    message: string,
+    public readonly value: unknown,
+    public readonly path?: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "FreezeError";
+  }
+}
+
+// =============================================================================
+// Freezable Protocol
+// =============================================================================
+
+/**
+ * Objects whose custom `freeze()` is currently running.
+ * A `freeze()` implementation may call the library's `freeze(this)` after
+ * its own cleanup; while it runs, the object is frozen generically instead
+ * of recursing back into its `freeze()`.
+ */
+const FREEZING = new WeakSet<object>();
+
+/**
+ * Check for either protocol. The symbol is always honored; the deprecated
+ * string-keyed method only while `legacyFreezeMethod` is enabled.
+ */
+function hasFreezeProtocol(
+  value: object,
+  legacyFreezeMethod: boolean
+): value is SelfFreezing | Freezable {
+  return isSelfFreezing(value) || (legacyFreezeMethod && isFreezable(value));
+}
+
+function callFreezable(obj: SelfFreezing | Freezable): unknown {
+  FREEZING.add(obj);
+  try {
+    // The symbol wins when an object implements both
+    return FREEZE in obj ? obj[FREEZE]() : obj.freeze();
+  } finally {
+    FREEZING.delete(obj);
+  }
+}
 
 // =============================================================================
 // Core Freeze Function
@@ -14,150 +183,1030 @@ import { isFreezable } from "./types.ts";
 /**
  * Deeply freeze an object and all nested properties in place.
  * Handles circular references, Arrays, Maps, Sets, Dates, RegExps,
- * and objects implementing `Freezable`.
+ * binary data, and objects implementing `SelfFreezing`.
+ *
+ * `SelfFreezing` objects have their `[FREEZE]()` method (or the deprecated
+ * `freeze()` of a `Freezable`) called wherever they appear in the graph,
+ * at most once per traversal. An object it returns takes the original's
+ * place: at the root it is the return value, nested it is written back
+ * into the parent slot (property, element, Map key or value, Set member),
+ * and it is frozen deeply like any other value. Anything else it returns -
+ * `undefined`, `null`, a primitive - is ignored, and the original is
+ * frozen as usual.
+ *
+ * Maps, Sets and Dates are locked as well as frozen: their `set`/`add`/
+ * `delete`/`clear` methods and Date setters throw a TypeError instead of
+ * mutating internal state. So are URLs, URLSearchParams and Headers (their
+ * setters and `append`/`set`/`delete`/`sort`). An Error's `stack` is fixed
+ * to its current value, and its `cause` and `errors` are frozen deeply.
+ * One of these that was already `Object.freeze`d (or sealed) by hand can't
+ * be locked any more; it is replaced, in its parent slot, by a locked copy.
+ *
+ * TypedArrays, DataViews and ArrayBuffers can't be frozen in place. Each
+ * one is replaced, in its parent slot, by a read-only facade over a private
+ * copy (see `readonlyBinary`). Freezing binary data at the root returns
+ * the facade rather than the input.
+ *
+ * WeakMaps, WeakSets, WeakRefs and Promises can't be traversed. The
+ * `opaque` policy decides whether they are left as they are (the default),
+ * replaced by read-only facades the same way, or rejected with a
+ * `FreezeError`.
+ *
+ * With a `depth` option the result is typed `DeepReadonlyToDepth<T, D>`:
+ * readonly down to the limit and unbranded, since `isFrozen` won't hold.
+ * `skip` can't be reflected in the type - skipped subtrees are still
+ * typed readonly.
+ *
+ * Own getters keep running after the freeze unless `accessors` is
+ * `"materialize"` (replace them with their current value) or `"reject"`
+ * (throw a `FreezeError`).
+ *
+ * By default whatever can't be made immutable is left as it is, quietly.
+ * With `strict: true` (or `freezeStrict()`) it throws a `FreezeError`
+ * naming the path instead.
+ *
+ * In production mode (`configure({ mode: "production" })`) the value is
+ * returned as it is, unfrozen but still typed `Frozen<T>`, even with
+ * `strict: true`. `freezeStrict()` checks in every mode.
  *
  * @param obj - Object to freeze (mutates in place)
+ * @param options - Depth limit, skip predicate, visit callback, strict mode,
+ *   and function, accessor and opaque container policies
  * @returns The same object, now frozen, with Frozen<T> type
+ *
+ * @example
+ * ```ts
+ * const app = freeze(state, {
+ *   skip: (value) => value instanceof Cache,
+ *   onVisit: (_value, path) => console.debug("freezing", path),
+ * });
+ *
+ * const shallow = freeze(config, { depth: 0 }); // same as Object.freeze
+ * ```
+ */
+export function freeze<T>(obj: T): Frozen<T>;
+export function freeze<T, D extends number>(
+  obj: T,
+  options: FreezeOptions & { readonly depth: D }
+): DeepReadonlyToDepth<T, D>;
+export function freeze<T>(obj: T, options?: FreezeOptions): Frozen<T>;
+export function freeze<T>(obj: T, options?: FreezeOptions): Frozen<T> {
+  if (isProduction()) {
+    return obj as Frozen<T>;
+  }
+  return freezeAlways(obj, options);
+}
+
+/**
+ * `freeze()` regardless of the configured mode, for `harden()`,
+ * `lockdown()`, `freezeStrict()` and objects the library shares between
+ * callers.
  */
-export function freeze<T>(obj: T): Frozen<T> {
+export function freezeAlways<T>(obj: T, options?: FreezeOptions): Frozen<T> {
+  const traversal = startFreeze(obj, options, undefined);
+  traversal.run(Infinity);
+  return traversal.result as Frozen<T>;
+}
+
+/**
+ * Deeply freeze an object like `freeze()` with `strict: true`: anything
+ * that would be left mutable throws a `FreezeError` naming its path.
+ *
+ * Use it at boundaries where a quietly partial freeze is worse than a
+ * failure. Opaque containers need `opaque: "facade"` (or the configured
+ * equivalent) to pass. Being a check, it freezes in production mode too.
+ *
+ * @param obj - Object to freeze (mutates in place)
+ * @param options - Same options as `freeze()`, except `depth`
+ * @returns The same object, now frozen
+ * @throws FreezeError if part of the graph can't be made immutable
+ *
+ * @example
+ * ```ts
+ * try {
+ *   return freezeStrict(payload, { opaque: "facade" });
+ * } catch (error) {
+ *   if (error instanceof FreezeError) log.error(`mutable at ${error.path}`);
+ *   throw error;
+ * }
+ * ```
+ */
+export function freezeStrict<T>(
+  obj: T,
+  options?: Omit<FreezeOptions, "depth" | "strict">
+): Frozen<T> {
+  return freezeAlways(obj, { ...options, strict: true });
+}
+
+// =============================================================================
+// Sealing
+// =============================================================================
+
+/**
+ * Deeply seal an object in place: no property can be added or deleted
+ * anywhere in the graph, but existing properties stay writable. Arrays
+ * keep their length (`push`, `pop` and `splice` throw, element writes
+ * work).
+ *
+ * Uses the same traversal as `freeze()`, cycles and depth limit included.
+ * Maps, Sets and Dates are sealed as objects: their contents are sealed
+ * too, but entries can still be added and removed. Binary data and
+ * opaque containers are left as they are. Objects that are already
+ * sealed (or frozen) are not looked into.
+ *
+ * @param obj - Object to seal (mutates in place)
+ * @param options - Depth limit, skip predicate, visit callback and function policy
+ * @returns The same object, now sealed
+ *
+ * @example
+ * ```ts
+ * const player = deepSeal({ pos: { x: 0, y: 0 }, hp: 100 });
+ * player.pos.x = 5;     // OK
+ * player.pos.z = 1;     // TypeError (in strict mode code)
+ * delete player.hp;     // TypeError (in strict mode code)
+ * ```
+ */
+export function deepSeal<T>(obj: T, options?: SealOptions): Sealed<T> {
+  const traversal = startFreeze(obj, options, undefined, "sealed");
+  traversal.run(Infinity);
+  return traversal.result as Sealed<T>;
+}
+
+/**
+ * Deeply prevent extensions in place: no property can be added anywhere in
+ * the graph, while existing ones can still be changed or deleted.
+ *
+ * Otherwise behaves like `deepSeal()`.
+ *
+ * @param obj - Object to lock against additions (mutates in place)
+ * @param options - Depth limit, skip predicate, visit callback and function policy
+ * @returns The same object, now non-extensible
+ *
+ * @example
+ * ```ts
+ * const form = deepPreventExtensions({ name: "", tags: ["a"] });
+ * form.name = "Ada";    // OK
+ * form.tags.pop();      // OK
+ * form.nmae = "typo";   // TypeError (in strict mode code)
+ * ```
+ */
+export function deepPreventExtensions<T>(obj: T, options?: SealOptions): NonExtensible<T> {
+  const traversal = startFreeze(obj, options, undefined, "nonextensible");
+  traversal.run(Infinity);
+  return traversal.result as NonExtensible<T>;
+}
+
+/**
+ * A freeze in progress. `run` can be called repeatedly to spread the work
+ * over several time slices.
+ */
+interface Traversal {
+  /** The value that ends up in the root slot. */
+  readonly result: unknown;
+
+  /**
+   * Freeze until the stack is empty (returns true) or the `performance.now()`
+   * deadline passes (returns false).
+   */
+  run(deadline: number): boolean;
+
+  /** Objects frozen so far. */
+  visitedCount(): number;
+
+  /** Objects waiting on the stack. */
+  pendingCount(): number;
+}
+
+/** How many objects to process between two reads of the clock. */
+const DEADLINE_CHECK_INTERVAL = 256;
+
+function finished(result: unknown): Traversal {
+  return { result, run: () => true, visitedCount: () => 0, pendingCount: () => 0 };
+}
+
+/** Applies an integrity level to a single object. */
+const APPLY_LEVEL: Readonly<Record<IntegrityLevel, (obj: object) => void>> = {
+  frozen: Object.freeze,
+  sealed: Object.seal,
+  nonextensible: Object.preventExtensions,
+};
+
+/** Checks whether a single object has reached an integrity level. */
+const HAS_LEVEL: Readonly<Record<IntegrityLevel, (obj: object) => boolean>> = {
+  frozen: Object.isFrozen,
+  sealed: Object.isSealed,
+  nonextensible: (obj) => !Object.isExtensible(obj),
+};
+
+/**
+ * Set up the traversal behind `freeze()`, `freezeWithReport()`,
+ * `freezeAsync()`, `deepSeal()` and `deepPreventExtensions()`. The root is
+ * entered right away; everything below it is fixed at `level` by `run`.
+ * Locks, facades and the freeze protocols only apply when freezing.
+ * Fills in `report` as it goes when one is passed.
+ */
+function startFreeze(
+  obj: unknown,
+  options: FreezeOptions | undefined,
+  report: ReportDraft | undefined,
+  level: IntegrityLevel = "frozen"
+): Traversal {
   // Primitives and null/undefined pass through
   if (obj === null || obj === undefined) {
-    return obj as Frozen<T>;
+    return finished(obj);
   }
 
   const type = typeof obj;
   if (type !== "object" && type !== "function") {
-    return obj as Frozen<T>;
+    return finished(obj);
   }
 
-  // Cheapest check first -- already frozen is common for repeat calls
-  if (Object.isFrozen(obj)) {
-    return obj as Frozen<T>;
+  const maxDepth = options?.depth ?? Infinity;
+  if (!(maxDepth >= 0) || (maxDepth !== Infinity && !Number.isInteger(maxDepth))) {
+    throw new RangeError(`depth must be a non-negative integer or Infinity, got ${maxDepth}`);
   }
+  const skip = options?.skip;
+  const onVisit = options?.onVisit;
+  const accessors = options?.accessors ?? "keep";
+  const strict = options?.strict ?? false;
+  const functions = options?.functions ?? (strict ? "freeze" : "ignore");
+  const freezing = level === "frozen";
+  const fix = APPLY_LEVEL[level];
+  const isFixed = HAS_LEVEL[level];
+  // Sealing leaves opaque containers alone, like freezing by reference
+  const opaque = freezing ? (options?.opaque ?? getConfig().opaque) : "reference";
 
-  // Check for Freezable interface (duck-type check is more expensive)
-  if (isFreezable<T>(obj)) {
-    return obj.freeze();
+  // Already frozen is common for repeat calls. Binary data may report
+  // frozen (empty, or only Object.freeze'd) while its bytes are writable,
+  // and a Map frozen by hand still needs a lock.
+  if (
+    isFixed(obj as object) &&
+    !isBinary(obj as object) &&
+    !(freezing && isUnlockable(obj as object))
+  ) {
+    if (report) noteAlreadyFrozen(report, obj as object, "");
+    if (strict) assertImmobile(obj);
+    return finished(obj);
   }
 
-  // Stack-based iteration for non-recursive deep freeze
-  const stack: unknown[] = [obj];
+  // Stack-based iteration for non-recursive deep freeze.
+  // Paths and depths ride on parallel stacks, only when an option needs them.
+  const tracksPaths =
+    skip !== undefined ||
+    onVisit !== undefined ||
+    accessors !== "keep" ||
+    opaque === "throw" ||
+    strict ||
+    report !== undefined;
+  const tracksDepth = maxDepth !== Infinity || onVisit !== undefined;
+  const stack: object[] = [];
+  const paths: string[] = [];
+  const depths: number[] = [];
   const visited = new WeakSet<object>();
 
-  while (stack.length > 0) {
-    // Items on the stack are guaranteed to be non-null objects
-    // (all push sites pre-filter with null/undefined/typeof checks)
-    const currentObj = stack.pop() as object;
+  // Binary children are swapped for read-only copies. Created lazily since
+  // most graphs have none; one copy per original buffer keeps views that
+  // shared a buffer sharing the copy.
+  let readonlyCopies: Map<object, object> | undefined;
+  let bufferCopies: Map<ArrayBufferLike, ArrayBuffer> | undefined;
+  const toReadonly = (value: BinaryData): object => {
+    readonlyCopies ??= new Map();
+    let copy = readonlyCopies.get(value);
+    if (copy === undefined) {
+      copy = readonlyBinary(value, (bufferCopies ??= new Map()));
+      readonlyCopies.set(value, copy);
+      if (report) report.frozen++;
+    }
+    return copy;
+  };
 
-    // Skip already visited (handles cycles) or already frozen
-    if (visited.has(currentObj) || Object.isFrozen(currentObj)) {
-      continue;
+  // Built-ins made non-extensible before they could be locked are swapped
+  // for locked copies, one per original like the binary ones
+  let lockableCopies: Map<object, object> | undefined;
+  const toLockable = (value: object): object => {
+    lockableCopies ??= new Map();
+    let copy = lockableCopies.get(value);
+    if (copy === undefined) {
+      copy = lockableCopy(value) ?? value;
+      lockableCopies.set(value, copy);
     }
+    return copy;
+  };
 
-    visited.add(currentObj);
+  const legacyFreezeMethod = getConfig().legacyFreezeMethod;
 
-    // Process based on type - most common cases first
+  // What each SelfFreezing's [FREEZE]() returned, so an object reachable through
+  // several paths (or a cycle) has its freeze() called only once
+  let protocolResults: Map<object, unknown> | undefined;
 
-    // Fast path: Array (very common)
-    if (Array.isArray(currentObj)) {
-      const len = currentObj.length;
-      for (let i = 0; i < len; i++) {
-        const item = currentObj[i];
-        if (item !== null && item !== undefined && typeof item === "object") {
-          stack.push(item);
-        }
-      }
-      Object.freeze(currentObj);
-      continue;
+  // Path and depth of the object being processed (-1: the root's parent)
+  let path = "";
+  let depth = -1;
+
+  // Values to descend into: objects, and functions when those are frozen too
+  const freezesFunctions = functions !== "ignore";
+  const isChild = (value: unknown): value is object =>
+    typeof value === "object" ? value !== null : freezesFunctions && typeof value === "function";
+
+  // Opaque containers are only caught here when they are replaced or
+  // rejected; passed by reference, they reach the generic branch of run()
+  const toReadonlyOpaque = (value: object, childPath: string): object => {
+    if (opaque === "throw") {
+      throw new FreezeError(
+        `Cannot freeze ${typeName(value)} at ${childPath || "(root)"}: its contents are unreachable`,
+        value,
+        childPath
+      );
+    }
+    const facade = readonlyOpaque(value);
+    if (!visited.has(facade)) {
+      visited.add(facade);
+      if (report) report.frozen++;
     }
+    return facade;
+  };
 
-    // Fast path: Plain object (most common)
-    const proto = Object.getPrototypeOf(currentObj);
-    if (proto === Object.prototype || proto === null) {
-      const keys = Object.keys(currentObj);
-      const keyLen = keys.length;
-      for (let i = 0; i < keyLen; i++) {
-        const key = keys[i]!;
-        const value = (currentObj as Record<string, unknown>)[key];
-        if (value !== null && value !== undefined && typeof value === "object") {
-          stack.push(value);
-        }
-      }
-      // Also traverse symbol-keyed properties
-      const symbols = Object.getOwnPropertySymbols(currentObj);
-      for (let i = 0; i < symbols.length; i++) {
-        const value = (currentObj as Record<symbol, unknown>)[symbols[i]!];
-        if (value !== null && value !== undefined && typeof value === "object") {
-          stack.push(value);
-        }
-      }
-      Object.freeze(currentObj);
-      continue;
+  const push = (value: object, childPath: string): object => {
+    if (isBinary(value)) {
+      // Fixed-length binary data can't change shape; only freezing swaps it
+      return freezing ? toReadonly(value) : value;
+    }
+    if (freezing && isUnlockable(value)) {
+      value = toLockable(value);
     }
+    // Facades, read-only views included, are read-only already
+    if (isFacade(value)) {
+      return value;
+    }
+    if (
+      opaque !== "reference" &&
+      isOpaque(value) &&
+      !isReadonlyOpaque(value) &&
+      getTypeHandler(value) === undefined
+    ) {
+      return toReadonlyOpaque(value, childPath);
+    }
+    stack.push(value);
+    if (tracksPaths) paths.push(childPath);
+    if (tracksDepth) depths.push(depth + 1);
+    return value;
+  };
 
-    // Map
-    if (currentObj instanceof Map) {
-      for (const [key, value] of currentObj) {
-        if (key !== null && key !== undefined && typeof key === "object") {
-          stack.push(key);
-        }
-        if (value !== null && value !== undefined && typeof value === "object") {
-          stack.push(value);
-        }
-      }
-      Object.freeze(currentObj);
-      continue;
+  // Decide what happens to an object found in a slot of the current one:
+  // left alone (depth limit, skip), swapped (binary data, [FREEZE]() result)
+  // or pushed. Returns the value that belongs in the slot afterwards.
+  const enter = (value: object, childPath: string): unknown => {
+    if (depth >= maxDepth) {
+      if (strict) leftMutable(value, childPath, "is below the depth limit");
+      return value;
+    }
+    if (skip !== undefined && skip(value, childPath)) {
+      if (strict) leftMutable(value, childPath, "is skipped");
+      return value;
+    }
+    if (protocolResults !== undefined && protocolResults.has(value)) {
+      return protocolResults.get(value);
+    }
+    if (
+      freezing &&
+      hasFreezeProtocol(value, legacyFreezeMethod) &&
+      !Object.isFrozen(value) &&
+      !FREEZING.has(value)
+    ) {
+      const returned = callFreezable(value);
+      // Only an object replaces the original; a method that returns
+      // nothing is there for its side effects
+      const result =
+        returned !== null && (typeof returned === "object" || typeof returned === "function")
+          ? returned
+          : value;
+      protocolResults ??= new Map();
+      protocolResults.set(value, result);
+      // The result is frozen deeply like any other value, but its own
+      // freeze() is not called again
+      protocolResults.set(result, result);
+      return push(result, childPath);
     }
+    return push(value, childPath);
+  };
 
-    // Set
-    if (currentObj instanceof Set) {
-      for (const item of currentObj) {
-        if (item !== null && item !== undefined && typeof item === "object") {
-          stack.push(item);
-        }
-      }
-      Object.freeze(currentObj);
-      continue;
+  // What can't be made immutable is reported, or in strict mode fatal
+  const unsupported = (value: object): void => {
+    if (strict) {
+      throw new FreezeError(
+        `Cannot make ${typeName(value)} at ${path || "(root)"} immutable`,
+        value,
+        path
+      );
     }
+    if (report) reportUnsupported(report, value, path);
+  };
 
-    // Date, RegExp - just freeze the wrapper
-    if (currentObj instanceof Date || currentObj instanceof RegExp) {
-      Object.freeze(currentObj);
-      continue;
+  const getterFailed = (target: object, propPath: string, error: unknown): void => {
+    if (strict) {
+      throw new FreezeError(`Getter at ${propPath} threw`, target, propPath, { cause: error });
     }
+    report?.getterErrors.push({ path: propPath, error });
+  };
 
-    // Generic object with custom prototype
+  // Own properties of a non-plain object, including non-enumerable and
+  // symbol-keyed ones
+  const enterProperties = (target: object): void => {
     // Use getOwnPropertyNames to include non-enumerable properties
-    const propNames = Object.getOwnPropertyNames(currentObj);
+    const propNames = Object.getOwnPropertyNames(target);
     const propLen = propNames.length;
     for (let i = 0; i < propLen; i++) {
       const propName = propNames[i]!;
+      if (propName === "prototype" && functions === "freeze" && typeof target === "function") {
+        continue;
+      }
+      let value: unknown;
       try {
-        const value = (currentObj as Record<string, unknown>)[propName];
-        if (value !== null && value !== undefined && typeof value === "object") {
-          stack.push(value);
-        }
-      } catch {
+        value = (target as Record<string, unknown>)[propName];
+      } catch (error) {
         // Some properties may throw on access (getters)
         // Skip them - we can't freeze what we can't read
+        getterFailed(target, propertyPath(path, propName), error);
+        continue;
+      }
+      if (isChild(value)) {
+        const slot = enter(value, tracksPaths ? propertyPath(path, propName) : "");
+        if (slot !== value) replaceSlot(target, propName, slot);
       }
     }
     // Also traverse symbol-keyed properties
-    const symProps = Object.getOwnPropertySymbols(currentObj);
+    const symProps = Object.getOwnPropertySymbols(target);
     for (let i = 0; i < symProps.length; i++) {
+      const sym = symProps[i]!;
+      let value: unknown;
       try {
-        const value = (currentObj as Record<symbol, unknown>)[symProps[i]!];
-        if (value !== null && value !== undefined && typeof value === "object") {
-          stack.push(value);
-        }
-      } catch {
+        value = (target as Record<symbol, unknown>)[sym];
+      } catch (error) {
         // Skip inaccessible symbol properties
+        getterFailed(target, propertyPath(path, sym), error);
+        continue;
+      }
+      if (isChild(value)) {
+        const slot = enter(value, tracksPaths ? propertyPath(path, sym) : "");
+        if (slot !== value) replaceSlot(target, sym, slot);
       }
     }
-    Object.freeze(currentObj);
+  };
+
+  const result = enter(obj as object, "");
+  let visitedCount = 0;
+  // Object being processed, for strict mode errors
+  let current: object | undefined;
+
+  const run = (deadline: number): boolean => {
+    let sinceCheck = 0;
+    while (stack.length > 0) {
+      // Reading the clock costs more than freezing a small object
+      if (deadline !== Infinity && ++sinceCheck === DEADLINE_CHECK_INTERVAL) {
+        if (performance.now() >= deadline) return false;
+        sinceCheck = 0;
+      }
+
+      // Items on the stack are guaranteed to be non-null, non-binary objects
+      // (all push sites go through enter())
+      const currentObj = stack.pop()!;
+      if (tracksPaths) path = paths.pop()!;
+      if (tracksDepth) depth = depths.pop()!;
+      if (strict) current = currentObj;
+
+      // Skip already visited (handles cycles) or already frozen
+      if (visited.has(currentObj)) {
+        if (report) report.cycles++;
+        continue;
+      }
+      if (isFixed(currentObj)) {
+        if (strict && !isImmobile(currentObj)) unsupported(currentObj);
+        if (report) noteAlreadyFrozen(report, currentObj, path);
+        continue;
+      }
+
+      visited.add(currentObj);
+      visitedCount++;
+      onVisit?.(currentObj, path, depth);
+      if (report) report.frozen++;
+
+      if (accessors !== "keep") {
+        applyAccessorPolicy(currentObj, accessors, path);
+      }
+
+      // Registered types come first, so a handler can override a built-in
+      const handler = getTypeHandler(currentObj);
+      if (handler !== undefined) {
+        if (handler.children) {
+          let index = 0;
+          for (const child of handler.children(currentObj)) {
+            if (isChild(child)) {
+              enter(child, tracksPaths ? childPath(path, index) : "");
+            }
+            index++;
+          }
+        } else {
+          enterProperties(currentObj);
+        }
+        // Sealing leaves the instance's internal state changeable
+        if (freezing) {
+          if (handler.freeze) {
+            handler.freeze(currentObj);
+          } else {
+            lock(currentObj);
+          }
+        }
+        fix(currentObj);
+        continue;
+      }
+
+      // Process based on type - most common cases first
+
+      // Fast path: Array (very common)
+      if (Array.isArray(currentObj)) {
+        const len = currentObj.length;
+        for (let i = 0; i < len; i++) {
+          const item = currentObj[i];
+          if (isChild(item)) {
+            const slot = enter(item, tracksPaths ? indexPath(path, i) : "");
+            if (slot !== item) replaceSlot(currentObj, i, slot);
+          }
+        }
+        fix(currentObj);
+        continue;
+      }
+
+      // Fast path: Plain object (most common)
+      const proto = Object.getPrototypeOf(currentObj);
+      if (proto === Object.prototype || proto === null) {
+        // Prototype objects keep their methods in non-enumerable properties,
+        // and their getters may throw when read from the prototype itself
+        if (freezesFunctions) {
+          enterProperties(currentObj);
+          fix(currentObj);
+          continue;
+        }
+        // A getter that throws is reported, or a FreezeError in strict mode,
+        // like on other objects; otherwise its error propagates
+        const keys = Object.keys(currentObj);
+        const keyLen = keys.length;
+        for (let i = 0; i < keyLen; i++) {
+          const key = keys[i]!;
+          let value: unknown;
+          try {
+            value = (currentObj as Record<string, unknown>)[key];
+          } catch (error) {
+            if (!report && !strict) throw error;
+            getterFailed(currentObj, propertyPath(path, key), error);
+            continue;
+          }
+          if (isChild(value)) {
+            const slot = enter(value, tracksPaths ? propertyPath(path, key) : "");
+            if (slot !== value) replaceSlot(currentObj, key, slot);
+          }
+        }
+        // Also traverse symbol-keyed properties
+        const symbols = Object.getOwnPropertySymbols(currentObj);
+        for (let i = 0; i < symbols.length; i++) {
+          const sym = symbols[i]!;
+          let value: unknown;
+          try {
+            value = (currentObj as Record<symbol, unknown>)[sym];
+          } catch (error) {
+            if (!report && !strict) throw error;
+            getterFailed(currentObj, propertyPath(path, sym), error);
+            continue;
+          }
+          if (isChild(value)) {
+            const slot = enter(value, tracksPaths ? propertyPath(path, sym) : "");
+            if (slot !== value) replaceSlot(currentObj, sym, slot);
+          }
+        }
+        fix(currentObj);
+        continue;
+      }
+
+      // Map
+      if (currentObj instanceof Map) {
+        let swapped: Map<unknown, unknown> | undefined;
+        let index = 0;
+        for (const [key, value] of currentObj) {
+          if (isChild(key)) {
+            const slot = enter(key, tracksPaths ? mapKeyPath(path, index) : "");
+            if (slot !== key) (swapped ??= new Map()).set(key, slot);
+          }
+          if (isChild(value)) {
+            const slot = enter(value, tracksPaths ? mapValuePath(path, key) : "");
+            if (slot !== value) (swapped ??= new Map()).set(value, slot);
+          }
+          index++;
+        }
+        if (swapped !== undefined) {
+          // Re-insert every entry so the swapped ones keep their position
+          const entries = [...currentObj];
+          currentObj.clear();
+          for (const [key, value] of entries) {
+            currentObj.set(
+              swapped.has(key) ? swapped.get(key) : key,
+              swapped.has(value) ? swapped.get(value) : value
+            );
+          }
+        }
+        if (freezing && !lock(currentObj)) unsupported(currentObj);
+        fix(currentObj);
+        continue;
+      }
+
+      // Set
+      if (currentObj instanceof Set) {
+        let swapped: Map<unknown, unknown> | undefined;
+        let index = 0;
+        for (const item of currentObj) {
+          if (isChild(item)) {
+            const slot = enter(item, tracksPaths ? setItemPath(path, index) : "");
+            if (slot !== item) (swapped ??= new Map()).set(item, slot);
+          }
+          index++;
+        }
+        if (swapped !== undefined) {
+          const items = [...currentObj];
+          currentObj.clear();
+          for (const item of items) {
+            currentObj.add(swapped.has(item) ? swapped.get(item) : item);
+          }
+        }
+        if (freezing && !lock(currentObj)) unsupported(currentObj);
+        fix(currentObj);
+        continue;
+      }
+
+      // Date - lock the setters, no children
+      if (currentObj instanceof Date) {
+        if (freezing && !lock(currentObj)) unsupported(currentObj);
+        fix(currentObj);
+        continue;
+      }
+
+      // RegExp - just freeze the wrapper
+      if (currentObj instanceof RegExp) {
+        fix(currentObj);
+        continue;
+      }
+
+      // Opaque container passed by reference, or a facade over one:
+      // neither is frozen
+      if (isOpaque(currentObj)) {
+        if (report) report.frozen--;
+        if (!isReadonlyOpaque(currentObj)) unsupported(currentObj);
+        continue;
+      }
+
+      // Generic object with custom prototype. URLs, Headers and Errors
+      // also get a lock; their contents are strings or own properties
+      if (freezing && requiresLock(currentObj)) {
+        if (!lock(currentObj)) unsupported(currentObj);
+      } else if ((strict || report) && hasInternalState(currentObj)) {
+        unsupported(currentObj);
+      }
+
+      enterProperties(currentObj);
+      fix(currentObj);
+    }
+    return true;
+  };
+
+  // Strict mode names the path of anything else that goes wrong (a Proxy
+  // trap that refuses, a throwing callback) and checks the finished result
+  const runStrict = (deadline: number): boolean => {
+    let done: boolean;
+    try {
+      done = run(deadline);
+    } catch (error) {
+      if (error instanceof FreezeError) throw error;
+      throw new FreezeError(`Cannot freeze value at ${path || "(root)"}`, current, path, {
+        cause: error,
+      });
+    }
+    if (done) assertImmobile(result);
+    return done;
+  };
+
+  return {
+    result,
+    run: strict ? runStrict : run,
+    visitedCount: () => visitedCount,
+    pendingCount: () => stack.length,
+  };
+}
+
+/**
+ * Strict mode: a value found in the graph is about to be left mutable.
+ */
+function leftMutable(value: object, path: string, reason: string): never {
+  throw new FreezeError(`Value at ${path || "(root)"} ${reason} and would stay mutable`, value, path);
+}
+
+/**
+ * Strict mode: throw if anything reachable from a freeze result is still
+ * mutable, or hidden behind a property that throws when read (a Proxy
+ * whose `get` trap lied before the freeze can't keep lying after it).
+ */
+function assertImmobile(result: unknown): void {
+  const unfrozen = findUncheckedPath(result);
+  if (unfrozen !== null) {
+    throw new FreezeError(
+      `Value at ${unfrozen} is still mutable (or can't be read) after freezing`,
+      result,
+      unfrozen === "(root)" ? "" : unfrozen
+    );
+  }
+}
+
+/**
+ * Materialize or reject the own accessor properties of an object that is
+ * about to be frozen.
+ */
+function applyAccessorPolicy(
+  obj: object,
+  policy: Exclude<AccessorPolicy, "keep">,
+  path: string
+): void {
+  const keys = Reflect.ownKeys(obj);
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i]!;
+    const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+    if (descriptor === undefined || "value" in descriptor) {
+      continue;
+    }
+    // The engine's own stack accessor; lock() turns it into data
+    if (key === "stack" && obj instanceof Error) {
+      continue;
+    }
+
+    const keyPath = propertyPath(path, key);
+    if (policy === "reject") {
+      throw new FreezeError(`Accessor property found at ${keyPath}`, obj, keyPath);
+    }
+    if (!descriptor.configurable) {
+      throw new FreezeError(
+        `Cannot materialize non-configurable accessor at ${keyPath}`,
+        obj,
+        keyPath
+      );
+    }
+
+    let value: unknown;
+    try {
+      value = descriptor.get?.call(obj);
+    } catch (error) {
+      throw new FreezeError(`Getter at ${keyPath} threw while materializing`, obj, keyPath, {
+        cause: error,
+      });
+    }
+    Object.defineProperty(obj, key, {
+      value,
+      writable: true,
+      enumerable: descriptor.enumerable,
+      configurable: true,
+    });
   }
+}
 
-  return obj as Frozen<T>;
+/**
+ * Overwrite an own data property before its owner is frozen.
+ * Accessors and non-writable, non-configurable properties are left alone.
+ */
+function replaceSlot(obj: object, key: PropertyKey, value: unknown): void {
+  const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+  if (
+    descriptor === undefined ||
+    !("value" in descriptor) ||
+    descriptor.value === value ||
+    !(descriptor.writable || descriptor.configurable)
+  ) {
+    return;
+  }
+  Object.defineProperty(obj, key, { value });
+}
+
+// =============================================================================
+// Freeze Report
+// =============================================================================
+
+/**
+ * What a `freezeWithReport()` traversal did.
+ */
+export interface FreezeReport {
+  /**
+   * Objects frozen by this call, or replaced by a read-only facade or a
+   * locked copy.
+   */
+  readonly frozen: number;
+
+  /** Objects reached that were already frozen; their contents were not traversed. */
+  readonly alreadyFrozen: number;
+
+  /**
+   * References back to an object this call had already reached - cycles,
+   * and shared objects reached through a second path.
+   */
+  readonly cycles: number;
+
+  /** Properties skipped because reading them threw, with the error thrown. */
+  readonly getterErrors: readonly { readonly path: string; readonly error: unknown }[];
+
+  /**
+   * Objects frozen only partially: their own properties are frozen, but
+   * internal state (a WeakMap's entries, an unlockable Map's contents)
+   * is still mutable.
+   */
+  readonly unsupported: readonly { readonly path: string; readonly type: string }[];
+
+  /** Wall-clock duration of the call in milliseconds. */
+  readonly elapsedMs: number;
+}
+
+/**
+ * The result of `freezeWithReport()`.
+ */
+export interface FreezeResult<T> {
+  readonly value: Frozen<T>;
+  readonly report: FreezeReport;
+}
+
+/**
+ * Counters filled in by the traversal.
+ */
+interface ReportDraft {
+  frozen: number;
+  alreadyFrozen: number;
+  cycles: number;
+  getterErrors: { path: string; error: unknown }[];
+  unsupported: { path: string; type: string }[];
+}
+
+/**
+ * Built-ins that keep mutable state in internal slots the library can't
+ * lock, and that no `OpaquePolicy` covers.
+ */
+const UNLOCKABLE_TYPES: readonly (abstract new (...args: never[]) => object)[] =
+  typeof FinalizationRegistry === "undefined" ? [] : [FinalizationRegistry];
+
+function hasInternalState(obj: object): boolean {
+  for (let i = 0; i < UNLOCKABLE_TYPES.length; i++) {
+    if (obj instanceof UNLOCKABLE_TYPES[i]!) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function reportUnsupported(report: ReportDraft, obj: object, path: string): void {
+  report.unsupported.push({ path, type: typeName(obj) });
+}
+
+/**
+ * Count an object frozen before this call. A subclass of Map, Set or Date
+ * that was `Object.freeze`d by hand can neither be locked nor copied, so it
+ * is unsupported too.
+ */
+function noteAlreadyFrozen(report: ReportDraft, obj: object, path: string): void {
+  report.alreadyFrozen++;
+  if (!isImmobile(obj)) {
+    reportUnsupported(report, obj, path);
+  }
+}
+
+/**
+ * Deeply freeze an object, like `freeze()`, and report what the traversal
+ * did: how much it froze, what it skipped and why.
+ *
+ * Use it to find out why a large payload is still partly mutable. The
+ * report tracks paths, so it is slower than a plain `freeze()`. Being a
+ * diagnostic, it freezes in production mode too.
+ *
+ * @param obj - Object to freeze (mutates in place)
+ * @param options - Same options as `freeze()`
+ * @returns The frozen value and a frozen report
+ *
+ * @example
+ * ```ts
+ * const { value, report } = freezeWithReport(payload);
+ * for (const { path, error } of report.getterErrors) {
+ *   console.warn(`not frozen: ${path}`, error);
+ * }
+ * ```
+ */
+export function freezeWithReport<T>(obj: T, options?: FreezeOptions): FreezeResult<T> {
+  const draft: ReportDraft = {
+    frozen: 0,
+    alreadyFrozen: 0,
+    cycles: 0,
+    getterErrors: [],
+    unsupported: [],
+  };
+  const start = performance.now();
+  const traversal = startFreeze(obj, options, draft);
+  traversal.run(Infinity);
+  const value = traversal.result as Frozen<T>;
+  const elapsedMs = performance.now() - start;
+
+  // Errors are the caller's objects - reference them without freezing
+  const report: FreezeReport = Object.freeze({
+    ...draft,
+    getterErrors: Object.freeze(draft.getterErrors.map((entry) => Object.freeze(entry))),
+    unsupported: freezeAlways(draft.unsupported),
+    elapsedMs,
+  });
+  return { value, report };
+}
+
+// =============================================================================
+// Incremental Freezing
+// =============================================================================
+
+/**
+ * Progress of a `freezeAsync()` call, reported after every time slice.
+ */
+export interface FreezeProgress {
+  /** Objects frozen so far. */
+  readonly frozen: number;
+
+  /**
+   * Objects found but not frozen yet. Grows as the traversal discovers
+   * children, so it is not a countdown.
+   */
+  readonly pending: number;
+}
+
+/**
+ * Options for `freezeAsync()`.
+ */
+export interface FreezeAsyncOptions extends FreezeOptions {
+  /**
+   * Milliseconds of freezing per time slice before yielding to the event
+   * loop. Defaults to 10.
+   */
+  readonly budgetMs?: number;
+
+  /**
+   * Stop between two time slices. The promise rejects with the signal's
+   * reason; objects frozen before that stay frozen.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Called after every time slice, including the last one.
+   */
+  readonly onProgress?: (progress: FreezeProgress) => void;
+}
+
+/**
+ * Deeply freeze an object like `freeze()`, in time slices, yielding to the
+ * event loop between them so large graphs don't block other work.
+ *
+ * The graph must not be mutated while the freeze is in progress: objects
+ * added to an unfrozen part of it are frozen along, but changes to parts
+ * already passed are not seen.
+ *
+ * @param obj - Object to freeze (mutates in place)
+ * @param options - `freeze()` options plus time budget, abort signal and
+ *   progress callback
+ * @returns Promise of the same value `freeze()` would return (in
+ *   production mode, the value as it is)
+ *
+ * @example
+ * ```ts
+ * const dataset = await freezeAsync(loaded, {
+ *   budgetMs: 5,
+ *   signal: AbortSignal.timeout(30_000),
+ *   onProgress: ({ frozen }) => log.debug(`${frozen} objects frozen`),
+ * });
+ * ```
+ */
+export async function freezeAsync<T>(obj: T, options?: FreezeAsyncOptions): Promise<Frozen<T>> {
+  const budgetMs = options?.budgetMs ?? 10;
+  if (!(budgetMs > 0)) {
+    throw new RangeError(`budgetMs must be a positive number, got ${budgetMs}`);
+  }
+  const signal = options?.signal;
+  const onProgress = options?.onProgress;
+
+  signal?.throwIfAborted();
+  if (isProduction()) {
+    return obj as Frozen<T>;
+  }
+  const traversal = startFreeze(obj, options, undefined);
+
+  while (true) {
+    const done = traversal.run(performance.now() + budgetMs);
+    onProgress?.({ frozen: traversal.visitedCount(), pending: traversal.pendingCount() });
+    if (done) {
+      return traversal.result as Frozen<T>;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    signal?.throwIfAborted();
+  }
 }
 
 // =============================================================================
@@ -172,7 +1221,9 @@ export const deepFreeze = freeze;
 
 /**
  * Freeze an object only if it's not already frozen.
- * Returns the object unchanged if already frozen.
+ * Returns the object unchanged if already frozen. A Map, Set or Date that
+ * was `Object.freeze`d by hand is not frozen yet: it gets a locked copy,
+ * like in `freeze()`.
  *
  * Useful when you're not sure if data has been frozen yet
  * and want to avoid unnecessary work.
@@ -181,7 +1232,7 @@ export const deepFreeze = freeze;
  * @returns Frozen object
  */
 export function ensureFrozen<T>(obj: T): Frozen<T> {
-  if (obj !== null && typeof obj === "object" && Object.isFrozen(obj)) {
+  if (obj !== null && typeof obj === "object" && isImmobile(obj)) {
     return obj as Frozen<T>;
   }
   return freeze(obj);
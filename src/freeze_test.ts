@@ -1,6 +1,21 @@
-import { assertEquals, assertThrows } from "jsr:@std/assert";
-import { deepFreeze, ensureFrozen, freeze, freezeAll, freezeRecord } from "./freeze.ts";
-import type { Freezable, Frozen } from "./types.ts";
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+import {
+  deepFreeze,
+  deepPreventExtensions,
+  deepSeal,
+  ensureFrozen,
+  freeze,
+  freezeAll,
+  freezeAsync,
+  FreezeError,
+  freezeRecord,
+  freezeStrict,
+  freezeWithReport,
+} from "./freeze.ts";
+import { configure } from "./config.ts";
+import type { DeepReadonlyToDepth, Freezable, Frozen, Sealed, SelfFreezing } from "./types.ts";
+import { FREEZE, isFreezable, isSelfFreezing } from "./types.ts";
+import { isFrozen } from "./validation.ts";
 
 // =============================================================================
 // freeze() - primitives
@@ -146,6 +161,21 @@ Deno.test("freeze - freezes Map keys that are objects", () => {
   assertEquals(Object.isFrozen(key), true);
 });
 
+Deno.test("freeze - frozen Map rejects set/delete/clear", () => {
+  const map = freeze(new Map([["a", 1]]));
+  assertThrows(() => (map as any).set("x", 1), TypeError);
+  assertThrows(() => (map as any).delete("a"), TypeError);
+  assertThrows(() => (map as any).clear(), TypeError);
+  assertEquals(map.get("a"), 1);
+  assertEquals(map.size, 1);
+});
+
+Deno.test("freeze - frozen Map is still a Map", () => {
+  const map = freeze(new Map([["a", 1]]));
+  assertEquals(map instanceof Map, true);
+  assertEquals([...map.keys()], ["a"]);
+});
+
 // =============================================================================
 // freeze() - Sets
 // =============================================================================
@@ -164,6 +194,38 @@ Deno.test("freeze - freezes Set values deeply", () => {
   assertEquals(Object.isFrozen(item.nested), true);
 });
 
+Deno.test("freeze - frozen Set rejects add/delete/clear", () => {
+  const set = freeze(new Set([1]));
+  assertThrows(() => (set as any).add(2), TypeError);
+  assertThrows(() => (set as any).delete(1), TypeError);
+  assertThrows(() => (set as any).clear(), TypeError);
+  assertEquals(set.has(1), true);
+  assertEquals(set.size, 1);
+});
+
+Deno.test("freeze - locks nested Maps and Sets", () => {
+  const obj = freeze({ map: new Map<string, number>(), set: new Set<number>() });
+  assertThrows(() => (obj.map as any).set("a", 1), TypeError);
+  assertThrows(() => (obj.set as any).add(1), TypeError);
+});
+
+Deno.test("freeze - replaces Maps and Sets frozen by hand with locked copies", () => {
+  const inner = { n: 1 };
+  const map = Object.freeze(new Map([["a", inner]]));
+  const set = Object.seal(new Set([1]));
+  const obj = freeze({ map, set, again: map });
+  assertEquals(obj.map !== map, true);
+  assertEquals(obj.again, obj.map);
+  assertEquals(obj.map.get("a"), inner);
+  assertEquals(Object.isFrozen(inner), true);
+  assertThrows(() => (obj.map as any).set("b", inner), TypeError);
+  assertThrows(() => (obj.set as any).add(2), TypeError);
+  assertEquals(isFrozen(obj), true);
+
+  const root = freeze(Object.freeze(new Set([1])));
+  assertThrows(() => (root as any).add(2), TypeError);
+});
+
 // =============================================================================
 // freeze() - Date and RegExp
 // =============================================================================
@@ -174,12 +236,187 @@ Deno.test("freeze - freezes Date", () => {
   assertEquals(Object.isFrozen(frozen), true);
 });
 
+Deno.test("freeze - frozen Date setters throw", () => {
+  const date = freeze(new Date(0));
+  assertThrows(() => (date as any).setTime(1), TypeError);
+  assertThrows(() => (date as any).setFullYear(2000), TypeError);
+  assertThrows(() => (date as any).setUTCHours(1), TypeError);
+  assertEquals(date.getTime(), 0);
+});
+
+Deno.test("freeze - nested Date in frozen object is locked", () => {
+  const event = freeze({ at: new Date(0) });
+  assertThrows(() => (event.at as any).setTime(1), TypeError);
+});
+
+Deno.test("freeze - frozen URL and URLSearchParams reject changes", () => {
+  const request = freeze({ url: new URL("https://example.com/users?page=1") });
+  assertThrows(() => {
+    (request.url as any).search = "?page=2";
+  }, TypeError);
+  assertThrows(() => (request.url.searchParams as any).append("page", "3"), TypeError);
+  assertEquals(request.url.href, "https://example.com/users?page=1");
+
+  const params = freeze(new URLSearchParams("a=1"));
+  assertThrows(() => (params as any).sort(), TypeError);
+});
+
+Deno.test("freeze - frozen Headers reject changes", () => {
+  const headers = freeze(new Headers({ "content-type": "text/plain" }));
+  assertThrows(() => (headers as any).append("x-id", "1"), TypeError);
+  assertThrows(() => (headers as any).delete("content-type"), TypeError);
+  assertEquals(headers.get("content-type"), "text/plain");
+});
+
+Deno.test("freeze - freezes Error stack, cause and errors", () => {
+  const cause = { code: 42 };
+  const error = freeze(new AggregateError([new Error("inner")], "outer", { cause }));
+  assertThrows(() => {
+    (error as any).stack = "forged";
+  }, TypeError);
+  assertEquals(Object.isFrozen(cause), true);
+  assertEquals(Object.isFrozen(error.errors), true);
+  assertEquals(Object.isFrozen(error.errors[0]), true);
+});
+
+Deno.test("freeze - Error stack is kept under the reject accessor policy", () => {
+  const error = freeze(new Error("boom"), { accessors: "reject" });
+  assertEquals(Object.isFrozen(error), true);
+});
+
+Deno.test("freeze - freezes boxed primitives", () => {
+  const boxed = freeze({ name: new String("flash") });
+  assertEquals(Object.isFrozen(boxed.name), true);
+  assertEquals(boxed.name.valueOf(), "flash");
+});
+
 Deno.test("freeze - freezes RegExp", () => {
   const regex = /test/gi;
   const frozen = freeze(regex);
   assertEquals(Object.isFrozen(frozen), true);
 });
 
+// =============================================================================
+// freeze() - binary data
+// =============================================================================
+
+Deno.test("freeze - does not throw on non-empty TypedArray", () => {
+  const msg = freeze({ pixels: new Uint8Array(4) });
+  assertEquals(Object.isFrozen(msg), true);
+  assertEquals(msg.pixels.length, 4);
+});
+
+Deno.test("freeze - nested TypedArray becomes read-only", () => {
+  const pixels = new Uint8Array([1, 2, 3]);
+  const msg = freeze({ pixels });
+  assertThrows(() => {
+    (msg.pixels as any)[0] = 9;
+  }, TypeError);
+  assertThrows(() => (msg.pixels as any).fill(0), TypeError);
+  assertEquals(msg.pixels[0], 1);
+});
+
+Deno.test("freeze - replaces binary data with a private copy", () => {
+  const pixels = new Uint8Array([1, 2, 3]);
+  const msg = freeze({ pixels });
+  pixels[0] = 99;
+  assertEquals(msg.pixels[0], 1);
+});
+
+Deno.test("freeze - views sharing a buffer still share it after freezing", () => {
+  const buffer = new ArrayBuffer(4);
+  const msg = freeze({ bytes: new Uint8Array(buffer), words: new Uint16Array(buffer), buffer });
+  assertEquals(msg.bytes.buffer === msg.words.buffer, true);
+  assertEquals(msg.bytes.buffer === msg.buffer, true);
+});
+
+Deno.test("freeze - same TypedArray in two places gets one facade", () => {
+  const bytes = new Uint8Array(2);
+  const msg = freeze({ a: bytes, b: [bytes] });
+  assertEquals(msg.a === msg.b[0], true);
+});
+
+Deno.test("freeze - binary data inside Maps and Sets", () => {
+  const key = new Uint8Array(1);
+  const map = freeze(new Map<unknown, unknown>([["first", 1], [key, new DataView(new ArrayBuffer(2))], ["last", 3]]));
+  assertEquals([...map.values()][0], 1);
+  assertEquals([...map.values()][2], 3);
+  const [, frozenKey] = [...map.keys()];
+  assertThrows(() => {
+    (frozenKey as any)[0] = 1;
+  }, TypeError);
+
+  const set = freeze(new Set([new Float32Array(1)]));
+  const [item] = [...set];
+  assertThrows(() => {
+    (item as any)[0] = 1;
+  }, TypeError);
+});
+
+Deno.test("freeze - returns a read-only copy for binary at the root", () => {
+  const bytes = new Uint8Array([1]);
+  const frozen = freeze(bytes);
+  assertThrows(() => {
+    (frozen as any)[0] = 2;
+  }, TypeError);
+  assertEquals(freeze(frozen), frozen);
+});
+
+// =============================================================================
+// freeze() - opaque containers
+// =============================================================================
+
+Deno.test("freeze - passes opaque containers through by reference by default", () => {
+  const cache = new WeakMap();
+  const state = freeze({ cache, pending: Promise.resolve(1) });
+  assertEquals(state.cache, cache);
+  assertEquals(Object.isFrozen(cache), false);
+  const key = {};
+  cache.set(key, 1);
+  assertEquals(cache.get(key), 1);
+});
+
+Deno.test("freeze - opaque: facade swaps in read-only facades", () => {
+  const key = {};
+  const cache = new WeakMap([[key, "v"]]);
+  const seen = new WeakSet([key]);
+  const state = freeze({ cache, seen, again: cache }, { opaque: "facade" });
+  assertEquals(state.cache === cache, false);
+  assertEquals(state.again, state.cache);
+  assertEquals(state.cache.get(key), "v");
+  assertThrows(() => (state.cache as any).set(key, "w"), TypeError);
+  assertThrows(() => (state.seen as any).add({}), TypeError);
+});
+
+Deno.test("freeze - opaque: throw names the path", () => {
+  const error = assertThrows(
+    () => freeze({ session: { refs: [new WeakRef({})] } }, { opaque: "throw" }),
+    FreezeError,
+    "Cannot freeze WeakRef at session.refs[0]"
+  );
+  assertEquals(error.path, "session.refs[0]");
+});
+
+Deno.test("freeze - opaque policy defaults to the configured one", () => {
+  configure({ opaque: "throw" });
+  try {
+    assertThrows(() => freeze({ cache: new WeakMap() }), FreezeError);
+    assertEquals(Object.isFrozen(freeze({ cache: new WeakMap() }, { opaque: "reference" })), true);
+  } finally {
+    configure({ opaque: "reference" });
+  }
+});
+
+Deno.test("freezeWithReport - counts facades and skips references", () => {
+  const facaded = freezeWithReport({ a: new WeakMap(), b: new WeakSet() }, { opaque: "facade" });
+  assertEquals(facaded.report.frozen, 3);
+  assertEquals(facaded.report.unsupported, []);
+
+  const referenced = freezeWithReport({ a: new WeakMap() });
+  assertEquals(referenced.report.frozen, 1);
+  assertEquals(referenced.report.unsupported, [{ path: "a", type: "WeakMap" }]);
+});
+
 // =============================================================================
 // freeze() - circular references
 // =============================================================================
@@ -244,6 +481,191 @@ Deno.test("freeze - calls Freezable.freeze() on objects implementing interface",
   assertEquals(called, true);
 });
 
+Deno.test("freeze - calls Freezable.freeze() on nested objects", () => {
+  const calls: string[] = [];
+  class Entity implements SelfFreezing<Entity> {
+    scratch: number[] | undefined = [1];
+    constructor(public name: string) {}
+    [FREEZE](): Frozen<Entity> {
+      calls.push(this.name);
+      this.scratch = undefined;
+      return this as unknown as Frozen<Entity>;
+    }
+  }
+  const world = freeze({ player: new Entity("player"), npcs: [new Entity("npc")], byId: new Map([[1, new Entity("mapped")]]) });
+  assertEquals(calls.sort(), ["mapped", "npc", "player"]);
+  assertEquals(world.player.scratch, undefined);
+  assertEquals(Object.isFrozen(world.player), true);
+  assertEquals(Object.isFrozen(world.npcs[0]), true);
+});
+
+Deno.test("freeze - nested Freezable result replaces the object in its slot", () => {
+  class Draft implements SelfFreezing<{ value: number }> {
+    constructor(public value: number) {}
+    [FREEZE](): Frozen<{ value: number }> {
+      return { value: this.value } as Frozen<{ value: number }>;
+    }
+  }
+  const frozen = freeze({ a: new Draft(1), list: [new Draft(2)], set: new Set([new Draft(3)]) });
+  assertEquals(frozen.a instanceof Draft, false);
+  assertEquals(frozen.a.value, 1);
+  assertEquals(frozen.list[0]!.value, 2);
+  assertEquals([...frozen.set][0]!.value, 3);
+  // The replacement is frozen deeply by the traversal
+  assertEquals(Object.isFrozen(frozen.a), true);
+  assertEquals(Object.isFrozen([...frozen.set][0]), true);
+});
+
+Deno.test("freeze - nested freeze() that returns nothing keeps the object", () => {
+  let calls = 0;
+  class Widget {
+    size = { w: 1 };
+    freeze(): void {
+      calls++;
+    }
+  }
+  const cb = {
+    freeze: () => {
+      calls++;
+    },
+  };
+  const frozen = freeze({ w: new Widget(), cb, n: 1 });
+  assertEquals(calls, 2);
+  assertEquals(frozen.cb, cb);
+  assertEquals(frozen.w instanceof Widget, true);
+  assertEquals(Object.isFrozen(frozen.cb), true);
+  assertEquals(Object.isFrozen(frozen.w.size), true);
+});
+
+Deno.test("freeze - [FREEZE]() that returns nothing keeps the object", () => {
+  class Cleanup {
+    scratch: number[] | undefined = [1];
+    data = { n: 1 };
+    [FREEZE](): void {
+      this.scratch = undefined;
+    }
+  }
+  const cleanup = new Cleanup();
+  const frozen = freeze({ cleanup, list: [new Cleanup()] });
+  assertEquals(frozen.cleanup, cleanup);
+  assertEquals(frozen.cleanup.scratch, undefined);
+  assertEquals(Object.isFrozen(frozen.cleanup.data), true);
+  assertEquals(frozen.list[0] instanceof Cleanup, true);
+  assertEquals(freeze(new Cleanup()) instanceof Cleanup, true);
+});
+
+Deno.test("freeze - Freezable.freeze() is called once per object, even in cycles", () => {
+  let calls = 0;
+  class Node implements SelfFreezing<Node> {
+    peer: Node | undefined;
+    [FREEZE](): Frozen<Node> {
+      calls++;
+      return this as unknown as Frozen<Node>;
+    }
+  }
+  const a = new Node();
+  const b = new Node();
+  a.peer = b;
+  b.peer = a;
+  freeze({ a, b, again: [a, b] });
+  assertEquals(calls, 2);
+  assertEquals(Object.isFrozen(a), true);
+  assertEquals(Object.isFrozen(b), true);
+});
+
+Deno.test("freeze - Freezable.freeze() may call the library freeze on itself", () => {
+  class Session implements SelfFreezing<Session> {
+    handle: object | undefined = {};
+    data = { nested: {} };
+    [FREEZE](): Frozen<Session> {
+      this.handle = undefined;
+      return freeze(this);
+    }
+  }
+  const session = freeze(new Session());
+  assertEquals(session.handle, undefined);
+  assertEquals(Object.isFrozen(session.data.nested), true);
+  const wrapped = freeze({ session: new Session() });
+  assertEquals(Object.isFrozen(wrapped.session.data), true);
+});
+
+Deno.test("freeze - already frozen Freezable is not called", () => {
+  let called = false;
+  const obj = Object.freeze({
+    freeze() {
+      called = true;
+      return this;
+    },
+  });
+  freeze({ obj });
+  assertEquals(called, false);
+});
+
+Deno.test("freeze - classes implementing the deprecated Freezable still work", () => {
+  class Legacy implements Freezable<Legacy> {
+    cache: object | undefined = {};
+    freeze(): Frozen<Legacy> {
+      this.cache = undefined;
+      return this as unknown as Frozen<Legacy>;
+    }
+  }
+  const legacy = new Legacy();
+  assertEquals(isFreezable(legacy), true);
+  assertEquals(isSelfFreezing(legacy), false);
+  assertEquals(freeze({ legacy }).legacy.cache, undefined);
+  assertEquals(isSelfFreezing({ [FREEZE]() {} }), true);
+  assertEquals(isFreezable({ [FREEZE]() {} }), false);
+});
+
+Deno.test("freeze - [FREEZE]() wins over a string-keyed freeze method", () => {
+  const calls: string[] = [];
+  const obj = {
+    [FREEZE]() {
+      calls.push("symbol");
+      return this;
+    },
+    freeze() {
+      calls.push("string");
+      return this;
+    },
+  };
+  freeze({ obj });
+  assertEquals(calls, ["symbol"]);
+});
+
+Deno.test("freeze - legacy freeze method is ignored when disabled", () => {
+  let called = false;
+  const handlers = {
+    freeze: () => {
+      called = true;
+    },
+  };
+  configure({ legacyFreezeMethod: false });
+  try {
+    const frozen = freeze({ handlers });
+    assertEquals(called, false);
+    assertEquals(Object.isFrozen(frozen.handlers), true);
+  } finally {
+    configure({ legacyFreezeMethod: true });
+  }
+});
+
+Deno.test("freeze - [FREEZE]() is honored when the legacy method is disabled", () => {
+  let called = false;
+  configure({ legacyFreezeMethod: false });
+  try {
+    freeze({
+      [FREEZE]() {
+        called = true;
+        return this;
+      },
+    });
+    assertEquals(called, true);
+  } finally {
+    configure({ legacyFreezeMethod: true });
+  }
+});
+
 // =============================================================================
 // freeze() - objects with custom prototypes
 // =============================================================================
@@ -340,6 +762,14 @@ Deno.test("ensureFrozen - returns already-frozen object unchanged", () => {
   assertEquals(result, obj as any);
 });
 
+Deno.test("ensureFrozen - locks a Map frozen by hand", () => {
+  const map = Object.freeze(new Map([["a", 1]]));
+  const result = ensureFrozen(map);
+  assertEquals(result.get("a"), 1);
+  assertThrows(() => (result as any).set("a", 2), TypeError);
+  assertEquals(isFrozen(result), true);
+});
+
 Deno.test("ensureFrozen - handles primitives", () => {
   assertEquals(ensureFrozen(42), 42 as any);
   assertEquals(ensureFrozen("str"), "str" as any);
@@ -397,6 +827,54 @@ Deno.test("freeze - passes through functions", () => {
   assertEquals(result, fn as any);
 });
 
+function makeHandler() {
+  function handler(): number {
+    return 1;
+  }
+  handler.meta = { route: "/users" };
+  return handler;
+}
+
+Deno.test("freeze - leaves nested functions alone by default", () => {
+  const config = freeze({ onRequest: makeHandler() });
+  assertEquals(Object.isFrozen(config.onRequest), false);
+  assertEquals(Object.isFrozen(config.onRequest.meta), false);
+});
+
+Deno.test("freeze - freezes functions and their statics on request", () => {
+  const config = freeze({ onRequest: makeHandler() }, { functions: "freeze" });
+  assertEquals(Object.isFrozen(config.onRequest), true);
+  assertEquals(Object.isFrozen(config.onRequest.meta), true);
+  assertEquals(Object.isFrozen(config.onRequest.prototype), false);
+  assertEquals(config.onRequest(), 1);
+  assertThrows(() => {
+    (config.onRequest.meta as any).route = "/admin";
+  }, TypeError);
+});
+
+Deno.test("freeze - freezes function prototypes with the prototype policy", () => {
+  class Service {
+    static registry = { count: 0 };
+    run(): string {
+      return "ran";
+    }
+  }
+  freeze({ Service }, { functions: "prototype" });
+  assertEquals(Object.isFrozen(Service), true);
+  assertEquals(Object.isFrozen(Service.registry), true);
+  assertEquals(Object.isFrozen(Service.prototype), true);
+  assertEquals(Object.isFrozen(Service.prototype.run), true);
+  assertEquals(new Service().run(), "ran");
+});
+
+Deno.test("freeze - types function statics as readonly", () => {
+  const handler = freeze(makeHandler(), { functions: "freeze" });
+  assertThrows(() => {
+    // @ts-expect-error - statics are readonly
+    handler.meta = { route: "/" };
+  }, TypeError);
+});
+
 // =============================================================================
 // freeze() - objects with symbol properties
 // =============================================================================
@@ -433,3 +911,500 @@ Deno.test("freeze - freezes empty Set", () => {
   const set = freeze(new Set());
   assertEquals(Object.isFrozen(set), true);
 });
+
+// =============================================================================
+// freeze() - options: depth
+// =============================================================================
+
+Deno.test("freeze - depth 0 freezes only the root", () => {
+  const obj = { nested: { deep: {} } };
+  freeze(obj, { depth: 0 });
+  assertEquals(Object.isFrozen(obj), true);
+  assertEquals(Object.isFrozen(obj.nested), false);
+});
+
+Deno.test("freeze - depth limits how far the traversal goes", () => {
+  const obj = { a: { b: { c: { d: {} } } } };
+  freeze(obj, { depth: 2 });
+  assertEquals(Object.isFrozen(obj.a), true);
+  assertEquals(Object.isFrozen(obj.a.b), true);
+  assertEquals(Object.isFrozen(obj.a.b.c), false);
+});
+
+Deno.test("freeze - depth applies to Map and Set members", () => {
+  const inner = { x: {} };
+  const map = new Map([["k", inner]]);
+  freeze({ map }, { depth: 1 });
+  assertEquals(Object.isFrozen(map), true);
+  assertEquals(Object.isFrozen(inner), false);
+});
+
+Deno.test("freeze - rejects negative and fractional depth", () => {
+  assertThrows(() => freeze({}, { depth: -1 }), RangeError);
+  assertThrows(() => freeze({}, { depth: 1.5 }), RangeError);
+});
+
+Deno.test("freeze - depth result type is readonly only to the limit", () => {
+  const obj = freeze({ a: { b: { c: 1 } } }, { depth: 1 });
+  const check: DeepReadonlyToDepth<{ a: { b: { c: number } } }, 1> = obj;
+  // Below the limit the type stays mutable, matching the runtime
+  obj.a.b.c = 2;
+  assertEquals(check.a.b.c, 2);
+});
+
+// =============================================================================
+// freeze() - options: skip
+// =============================================================================
+
+Deno.test("freeze - skip leaves matching subtrees mutable", () => {
+  class Cache {
+    entries = new Map<string, number>();
+  }
+  const state = { config: { port: 1 }, cache: new Cache() };
+  freeze(state, { skip: (value) => value instanceof Cache });
+  assertEquals(Object.isFrozen(state), true);
+  assertEquals(Object.isFrozen(state.config), true);
+  assertEquals(Object.isFrozen(state.cache), false);
+  state.cache.entries.set("a", 1);
+  assertEquals(state.cache.entries.get("a"), 1);
+});
+
+Deno.test("freeze - skip receives paths", () => {
+  const seen: string[] = [];
+  freeze({ users: [{ name: "a" }], tags: new Map([["t", {}]]) }, {
+    skip: (_value, path) => {
+      seen.push(path);
+      return false;
+    },
+  });
+  assertEquals(seen.sort(), ["", "tags", "tags.get(t)", "users", "users[0]"]);
+});
+
+Deno.test("freeze - skip by path keeps binary data mutable", () => {
+  const obj = { raw: new Uint8Array(2) };
+  const raw = obj.raw;
+  freeze(obj, { skip: (_value, path) => path === "raw" });
+  assertEquals(obj.raw, raw);
+  obj.raw[0] = 1;
+  assertEquals(raw[0], 1);
+});
+
+Deno.test("freeze - skipping the root returns it untouched", () => {
+  const obj = { a: {} };
+  freeze(obj, { skip: () => true });
+  assertEquals(Object.isFrozen(obj), false);
+});
+
+// =============================================================================
+// freeze() - options: onVisit
+// =============================================================================
+
+Deno.test("freeze - onVisit is called once per frozen object with path and depth", () => {
+  const shared = { s: 1 };
+  const obj: any = { a: shared, b: [shared], done: Object.freeze({}) };
+  obj.self = obj;
+  const visits: [string, number][] = [];
+  freeze(obj, { onVisit: (_value, path, depth) => visits.push([path, depth]) });
+  visits.sort();
+  assertEquals(visits.length, 3);
+  assertEquals(visits[0], ["", 0]);
+  assertEquals(visits.some(([path]) => path === "b"), true);
+});
+
+Deno.test("freeze - onVisit paths name Map entries under object keys", () => {
+  const key = Object.create(null);
+  const paths: string[] = [];
+  freeze(new Map([[key, { v: 1 }]]), { onVisit: (_value, path) => paths.push(path) });
+  assertEquals(paths.sort(), ["", "get(<object>)", "keys()[0]"]);
+});
+
+// =============================================================================
+// freeze() - strict
+// =============================================================================
+
+Deno.test("freezeStrict - freezes ordinary graphs, functions included", () => {
+  const state = freezeStrict({ items: [{ id: 1 }], tags: new Set(["a"]), onChange() {} });
+  assertEquals(Object.isFrozen(state.items[0]), true);
+  assertEquals(Object.isFrozen(state.onChange), true);
+});
+
+Deno.test("freezeStrict - throws for skipped values", () => {
+  const error = assertThrows(
+    () => freezeStrict({ cache: { hits: 0 } }, { skip: (_value, path) => path === "cache" }),
+    FreezeError,
+    "Value at cache is skipped"
+  );
+  assertEquals(error.path, "cache");
+});
+
+Deno.test("freeze - strict throws below the depth limit", () => {
+  assertThrows(
+    () => freeze({ a: { b: {} } }, { depth: 1, strict: true }),
+    FreezeError,
+    "Value at a.b is below the depth limit"
+  );
+});
+
+Deno.test("freezeStrict - throws for getters that throw", () => {
+  class Lazy {
+    get broken(): never {
+      throw new Error("not loaded");
+    }
+  }
+  const lazy = new Lazy();
+  Object.defineProperty(lazy, "broken", Object.getOwnPropertyDescriptor(Lazy.prototype, "broken")!);
+  const error = assertThrows(() => freezeStrict({ lazy }), FreezeError, "Getter at lazy.broken threw");
+  assertEquals((error.cause as Error).message, "not loaded");
+});
+
+Deno.test("freezeStrict - throws for types that can't be locked", () => {
+  class Registry extends Map {}
+  const sealed = Object.preventExtensions(new Registry());
+  assertThrows(() => freezeStrict({ sealed }), FreezeError, "Cannot make Map at sealed immutable");
+});
+
+Deno.test("freezeStrict - throws for opaque containers passed by reference", () => {
+  assertThrows(
+    () => freezeStrict({ cache: new WeakMap() }, { opaque: "reference" }),
+    FreezeError,
+    "Cannot make WeakMap at cache immutable"
+  );
+  const state = freezeStrict({ cache: new WeakMap() }, { opaque: "facade" });
+  assertThrows(() => (state.cache as any).set({}, 1), TypeError);
+});
+
+Deno.test("freezeStrict - throws for proxies whose get trap lies", () => {
+  const hidden = { secret: 1 };
+  const proxy = new Proxy({ data: hidden }, { get: () => ({ decoy: true }) });
+  const error = assertThrows(
+    () => freezeStrict({ proxy }),
+    FreezeError,
+    "Value at proxy.data is still mutable (or can't be read) after freezing"
+  );
+  assertEquals(error.path, "proxy.data");
+  assertEquals(Object.isFrozen(hidden), false);
+});
+
+Deno.test("freezeStrict - throws for getters returning new objects", () => {
+  const live = {};
+  Object.defineProperty(live, "now", { get: () => ({ at: Date.now() }), enumerable: true });
+  assertThrows(() => freezeStrict({ live }), FreezeError, "Value at live.now is still mutable");
+});
+
+Deno.test("freezeStrict - names the path when a Proxy trap refuses", () => {
+  const stubborn = new Proxy({}, { preventExtensions: () => false });
+  const error = assertThrows(() => freezeStrict({ stubborn }), FreezeError, "Cannot freeze value at stubborn");
+  assertEquals(error.cause instanceof TypeError, true);
+});
+
+Deno.test("freezeStrict - checks already frozen input", () => {
+  const shell = Object.freeze({ inner: { n: 1 } });
+  assertThrows(() => freezeStrict(shell), FreezeError, "Value at inner is still mutable");
+});
+
+// =============================================================================
+// freeze() - accessors
+// =============================================================================
+
+function withGetter(read: () => unknown): object {
+  const obj = { id: 1 };
+  Object.defineProperty(obj, "current", { get: read, enumerable: true, configurable: true });
+  return obj;
+}
+
+Deno.test("freeze - keeps accessors by default", () => {
+  let value = 1;
+  const obj: any = freeze(withGetter(() => value));
+  value = 2;
+  assertEquals(obj.current, 2);
+});
+
+Deno.test("freeze - materializes accessors", () => {
+  let value: unknown = { nested: true };
+  const obj: any = freeze({ inner: withGetter(() => value) }, { accessors: "materialize" });
+  value = 2;
+  assertEquals(obj.inner.current, { nested: true });
+  assertEquals(Object.isFrozen(obj.inner.current), true);
+  assertEquals("value" in Object.getOwnPropertyDescriptor(obj.inner, "current")!, true);
+});
+
+Deno.test("freeze - rejects accessors with their path", () => {
+  const obj = { a: { b: withGetter(() => 1) } };
+  const error = assertThrows(
+    () => freeze(obj, { accessors: "reject" }),
+    FreezeError,
+    "a.b.current"
+  );
+  assertEquals(error.path, "a.b.current");
+});
+
+Deno.test("freeze - materialize reports getters that throw", () => {
+  const obj = withGetter(() => {
+    throw new Error("boom");
+  });
+  const error = assertThrows(() => freeze(obj, { accessors: "materialize" }), FreezeError);
+  assertEquals((error.cause as Error).message, "boom");
+});
+
+// =============================================================================
+// freezeWithReport()
+// =============================================================================
+
+Deno.test("freezeWithReport - counts frozen, already frozen and repeated objects", () => {
+  const shared = { s: 1 };
+  const obj: any = { a: shared, b: [shared], done: Object.freeze({}) };
+  obj.self = obj;
+  const { value, report } = freezeWithReport(obj);
+  assertEquals(value, obj);
+  assertEquals(Object.isFrozen(obj), true);
+  assertEquals(report.frozen, 3);
+  assertEquals(report.alreadyFrozen, 1);
+  assertEquals(report.cycles, 2);
+  assertEquals(report.elapsedMs >= 0, true);
+  assertEquals(Object.isFrozen(report), true);
+});
+
+Deno.test("freezeWithReport - lists getters that threw", () => {
+  class Lazy {
+    data = { n: 1 };
+  }
+  const lazy = new Lazy();
+  Object.defineProperty(lazy, "broken", {
+    get() {
+      throw new Error("not loaded");
+    },
+  });
+  const { report } = freezeWithReport({ lazy });
+  assertEquals(report.getterErrors.length, 1);
+  assertEquals(report.getterErrors[0]!.path, "lazy.broken");
+  assertEquals((report.getterErrors[0]!.error as Error).message, "not loaded");
+  assertEquals(Object.isFrozen(lazy.data), true);
+});
+
+Deno.test("freezeWithReport - lists unsupported types", () => {
+  class Registry extends Map<string, number> {}
+  const sealed = Object.preventExtensions(new Registry([["k", 1]]));
+  const frozenSet = Object.freeze(new (class extends Set {})());
+  const { report } = freezeWithReport({ cache: new WeakMap(), sealed, frozenSet });
+  assertEquals(report.unsupported, [
+    { path: "frozenSet", type: "Set" },
+    { path: "sealed", type: "Map" },
+    { path: "cache", type: "WeakMap" },
+  ]);
+});
+
+Deno.test("freezeWithReport - counts locked copies of hand-frozen Maps as frozen", () => {
+  const { value, report } = freezeWithReport({ map: Object.freeze(new Map([["k", { v: 1 }]])) });
+  assertEquals(report.unsupported, []);
+  assertEquals(report.alreadyFrozen, 0);
+  assertEquals(report.frozen, 3);
+  assertEquals(isFrozen(value), true);
+});
+
+Deno.test("freezeWithReport - lists getters on plain objects that threw", () => {
+  const sym = Symbol("lazy");
+  const make = () => ({
+    data: { n: 1 },
+    get broken(): never {
+      throw new Error("not loaded");
+    },
+    get [sym](): never {
+      throw new Error("not loaded either");
+    },
+  });
+  const obj = make();
+  const { report } = freezeWithReport({ obj });
+  assertEquals(report.getterErrors.map((entry) => entry.path), ["obj.broken", "obj[Symbol(lazy)]"]);
+  assertEquals((report.getterErrors[0]!.error as Error).message, "not loaded");
+  assertEquals(Object.isFrozen(obj.data), true);
+  assertThrows(() => freezeStrict({ obj: make() }), FreezeError, "Getter at obj.broken threw");
+});
+
+Deno.test("freezeWithReport - handles Map keys that can't be converted to strings", () => {
+  class Lazy {}
+  const key = Object.create(null);
+  const lazy = Object.defineProperty(new Lazy(), "broken", {
+    get() {
+      throw new Error("not loaded");
+    },
+  });
+  const { value, report } = freezeWithReport(new Map([[key, { lazy }]]));
+  assertEquals(Object.isFrozen(value.get(key)), true);
+  assertEquals(report.getterErrors[0]!.path, "get(<object>).lazy.broken");
+});
+
+Deno.test("freezeWithReport - reports an already frozen root", () => {
+  const { value, report } = freezeWithReport(Object.freeze({ a: 1 }));
+  assertEquals(value.a, 1);
+  assertEquals(report.frozen, 0);
+  assertEquals(report.alreadyFrozen, 1);
+});
+
+// =============================================================================
+// freezeAsync()
+// =============================================================================
+
+function wideGraph(size: number): { items: { id: number }[] } {
+  return { items: Array.from({ length: size }, (_, id) => ({ id })) };
+}
+
+Deno.test("freezeAsync - resolves to the deeply frozen value", async () => {
+  const obj = { a: { b: [1, { c: 2 }] }, m: new Map([["k", { v: 1 }]]) };
+  const result = await freezeAsync(obj);
+  assertEquals(result, obj);
+  assertEquals(Object.isFrozen(obj.a.b[1]), true);
+  assertEquals(Object.isFrozen(obj.m.get("k")), true);
+});
+
+Deno.test("freezeAsync - passes primitives through", async () => {
+  assertEquals(await freezeAsync(42), 42);
+  assertEquals(await freezeAsync(null), null);
+});
+
+Deno.test("freezeAsync - yields between slices and reports progress", async () => {
+  const obj = wideGraph(2000);
+  const progress: number[] = [];
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 0);
+  try {
+    await freezeAsync(obj, {
+      budgetMs: 0.001,
+      onProgress: ({ frozen }) => progress.push(frozen),
+    });
+  } finally {
+    clearInterval(timer);
+  }
+  assertEquals(progress.length > 1, true);
+  assertEquals(progress.at(-1), 2002);
+  assertEquals(ticks > 0, true);
+  assertEquals(Object.isFrozen(obj.items[1999]), true);
+});
+
+Deno.test("freezeAsync - stops when aborted", async () => {
+  const obj = wideGraph(2000);
+  const controller = new AbortController();
+  await assertRejects(
+    () =>
+      freezeAsync(obj, {
+        budgetMs: 0.001,
+        signal: controller.signal,
+        onProgress: () => controller.abort(new Error("cancelled")),
+      }),
+    Error,
+    "cancelled"
+  );
+  assertEquals(Object.isFrozen(obj.items[0]), false);
+});
+
+Deno.test("freezeAsync - rejects an invalid budget", async () => {
+  await assertRejects(() => freezeAsync({}, { budgetMs: 0 }), RangeError);
+});
+
+// =============================================================================
+// deepSeal / deepPreventExtensions
+// =============================================================================
+
+Deno.test("deepSeal - fixes the shape, values stay writable", () => {
+  const entity = deepSeal({ pos: { x: 0, y: 0 }, tags: ["enemy"] });
+  entity.pos.x = 5;
+  entity.tags[0] = "boss";
+  assertEquals(entity.pos.x, 5);
+  assertEquals(entity.tags[0], "boss");
+  assertEquals(Object.isSealed(entity.pos), true);
+  assertEquals(Object.isFrozen(entity.pos), false);
+  assertThrows(() => {
+    (entity.pos as any).z = 1;
+  }, TypeError);
+  assertThrows(() => {
+    delete (entity as any).tags;
+  }, TypeError);
+  assertThrows(() => (entity.tags as any).push("x"), TypeError);
+});
+
+Deno.test("deepSeal - handles cycles and Map contents", () => {
+  const node: any = { name: "a", meta: new Map([["k", { v: 1 }]]) };
+  node.self = node;
+  deepSeal(node);
+  assertEquals(Object.isSealed(node), true);
+  assertEquals(Object.isSealed(node.meta.get("k")), true);
+  // The Map's entries are internal state, not properties
+  node.meta.set("other", 2);
+  assertEquals(node.meta.size, 2);
+});
+
+Deno.test("deepSeal - leaves binary data and opaque containers alone", () => {
+  const state = deepSeal({ bytes: new Uint8Array([1]), cache: new WeakMap() });
+  state.bytes[0] = 2;
+  assertEquals(state.bytes[0], 2);
+  state.cache.set({}, 1);
+  assertEquals(Object.isSealed(state.cache), false);
+});
+
+Deno.test("deepSeal - respects depth and skip", () => {
+  const obj = { a: { b: {} }, c: {} };
+  deepSeal(obj, { depth: 1, skip: (_v, path) => path === "c" });
+  assertEquals(Object.isSealed(obj.a), true);
+  assertEquals(Object.isSealed(obj.a.b), false);
+  assertEquals(Object.isSealed(obj.c), false);
+});
+
+Deno.test("deepSeal - Sealed<T> keeps fields writable", () => {
+  const entity: Sealed<{ hp: number; items: string[] }> = deepSeal({ hp: 1, items: ["a"] });
+  entity.hp = 2;
+  entity.items[0] = "b";
+  // @ts-expect-error - sealed arrays can't grow
+  assertThrows(() => entity.items.push("c"), TypeError);
+});
+
+Deno.test("deepPreventExtensions - blocks additions only", () => {
+  const form = deepPreventExtensions({ name: "", tags: ["a", "b"], extra: {} as object });
+  form.name = "Ada";
+  form.tags.pop();
+  delete (form as any).extra;
+  assertEquals(form, { name: "Ada", tags: ["a"] } as any);
+  assertEquals(Object.isSealed(form.tags), false);
+  assertThrows(() => {
+    (form as any).nmae = "typo";
+  }, TypeError);
+  // @ts-expect-error - non-extensible arrays can't grow
+  assertThrows(() => form.tags.push("c"), TypeError);
+});
+
+// =============================================================================
+// Production mode
+// =============================================================================
+
+Deno.test("freeze - production mode returns the value unfrozen", async () => {
+  configure({ mode: "production" });
+  try {
+    const obj = { a: { b: 1 } };
+    const result: Frozen<typeof obj> = freeze(obj);
+    assertEquals(result, obj);
+    assertEquals(Object.isFrozen(obj), false);
+    assertEquals(Object.isFrozen(await freezeAsync(obj)), false);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
+
+Deno.test("freezeStrict - freezes and throws in production mode too", () => {
+  configure({ mode: "production" });
+  try {
+    const state = freezeStrict({ a: { b: 1 } });
+    assertEquals(Object.isFrozen(state.a), true);
+    assertThrows(() => freezeStrict({ cache: new WeakMap() }, { opaque: "reference" }), FreezeError);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
+
+Deno.test("freezeWithReport - freezes in production mode too", () => {
+  configure({ mode: "production" });
+  try {
+    const { value, report } = freezeWithReport({ a: {} });
+    assertEquals(Object.isFrozen(value.a), true);
+    assertEquals(report.frozen, 2);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
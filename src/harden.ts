@@ -0,0 +1,176 @@
+/**
+ * Flash-Freeze Hardening
+ *
+ * `freeze()` makes an object's own state immutable, but behavior lives on
+ * its prototype: patching `Service.prototype.call` changes every frozen
+ * service. `harden()` also freezes the prototype chains, constructors,
+ * methods and accessor functions reachable from a value, in the spirit of
+ * SES `harden`. It stops at the realm's shared intrinsics
+ * (`Object.prototype`, `Function.prototype`, ...) - freezing those is
+ * `lockdown()`'s job.
+ *
+ * @module
+ */
+
+import { freezeAlways } from "./freeze.ts";
+import type { FreezeOptions } from "./freeze.ts";
+import { sharedIntrinsics } from "./intrinsics.ts";
+import { isFacade } from "./lock.ts";
+import { getTypeHandler } from "./registry.ts";
+import type { Frozen } from "./types.ts";
+import { isShallowFrozen } from "./validation.ts";
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for `harden()` and `isHardened()`.
+ */
+export interface HardenOptions {
+  /**
+   * Additional shared objects to stop at, like the realm's intrinsics:
+   * they are neither frozen nor required to be frozen. Use it for base
+   * classes owned by someone else, e.g. a framework's `Component`.
+   */
+  readonly stopAt?: Iterable<object>;
+}
+
+function stopSet(options: HardenOptions | undefined): ReadonlySet<object> {
+  const intrinsics = sharedIntrinsics();
+  if (options?.stopAt === undefined) {
+    return intrinsics;
+  }
+  const set = new Set(intrinsics);
+  for (const obj of options.stopAt) {
+    set.add(obj);
+  }
+  return set;
+}
+
+/**
+ * Visit every object and function reachable from the roots - through
+ * properties, accessors, collection contents and prototype chains - that
+ * isn't a stop point. Each object is visited before its contents are read.
+ * Accessors are never called.
+ *
+ * @returns False as soon as `visit` returns false
+ */
+export function walkReachable(
+  roots: readonly unknown[],
+  stopAt: ReadonlySet<object>,
+  visit: (obj: object) => boolean
+): boolean {
+  const visited = new WeakSet<object>();
+  const stack: unknown[] = [...roots];
+
+  while (stack.length > 0) {
+    const next = stack.pop();
+    if (next === null || (typeof next !== "object" && typeof next !== "function")) {
+      continue;
+    }
+
+    const obj = next as object;
+    if (stopAt.has(obj) || visited.has(obj)) {
+      continue;
+    }
+    visited.add(obj);
+
+    if (!visit(obj)) {
+      return false;
+    }
+    // Facades are read-only throughout; their prototype is an intrinsic
+    if (isFacade(obj)) {
+      continue;
+    }
+
+    stack.push(Object.getPrototypeOf(obj));
+
+    const keys = Reflect.ownKeys(obj);
+    for (let i = 0; i < keys.length; i++) {
+      const descriptor = Object.getOwnPropertyDescriptor(obj, keys[i]!)!;
+      if ("value" in descriptor) {
+        stack.push(descriptor.value);
+      } else {
+        stack.push(descriptor.get, descriptor.set);
+      }
+    }
+
+    const children = getTypeHandler(obj)?.children;
+    if (children) {
+      for (const child of children(obj)) stack.push(child);
+    } else if (obj instanceof Map) {
+      for (const [key, val] of obj) stack.push(key, val);
+    } else if (obj instanceof Set) {
+      for (const item of obj) stack.push(item);
+    }
+  }
+
+  return true;
+}
+
+// =============================================================================
+// Hardening
+// =============================================================================
+
+/**
+ * Deeply freeze a value together with everything that defines its
+ * behavior: the prototype chain of every object reached, functions and
+ * their `prototype` objects, constructors, and accessor functions.
+ * Shared intrinsics are left alone.
+ *
+ * Unlike `freeze()`, objects that are already frozen are looked into too,
+ * and production mode doesn't turn hardening off.
+ *
+ * @param obj - Value to harden (mutates in place)
+ * @param options - Extra objects to stop at
+ * @returns The same value, frozen
+ *
+ * @example
+ * ```ts
+ * const service = harden(new UserService(db));
+ * UserService.prototype.find = evil;  // TypeError
+ * ```
+ */
+export function harden<T>(obj: T, options?: HardenOptions): Frozen<T> {
+  const stopAt = stopSet(options);
+  const freezeOptions: FreezeOptions = {
+    functions: "prototype",
+    skip: (value) => stopAt.has(value),
+  };
+
+  // One deep freeze covers most of the graph. The walk then finds what
+  // freeze() doesn't follow: prototype chains, accessor functions, and the
+  // contents of objects that were frozen (but not hardened) beforehand
+  const result = freezeAlways(obj, freezeOptions);
+  walkReachable([result], stopAt, (value) => {
+    if (!isShallowFrozen(value)) {
+      freezeAlways(value, freezeOptions);
+    }
+    return true;
+  });
+  return result;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check that a value is hardened: every object and function reachable from
+ * it - through properties, accessors, collection contents and prototype
+ * chains - is frozen, until shared intrinsics are reached.
+ *
+ * @param value - Value to check
+ * @param options - Extra objects to stop at (pass the same as to `harden`)
+ * @returns True if nothing reachable can be changed
+ *
+ * @example
+ * ```ts
+ * isHardened(freeze(new UserService(db)));   // false - prototype is mutable
+ * isHardened(harden(new UserService(db)));   // true
+ * ```
+ */
+export function isHardened(value: unknown, options?: HardenOptions): boolean {
+  return walkReachable([value], stopSet(options), isShallowFrozen);
+}
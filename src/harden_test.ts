@@ -0,0 +1,114 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { harden, isHardened } from "./harden.ts";
+import { configure } from "./config.ts";
+import { freeze } from "./freeze.ts";
+
+class Base {
+  describe(): string {
+    return "base";
+  }
+}
+
+class Service extends Base {
+  static instances = { count: 0 };
+  config = { retries: 3 };
+
+  get label(): string {
+    return "service";
+  }
+
+  call(): string {
+    return "called";
+  }
+}
+
+// Each test gets fresh classes, since hardening them is permanent
+function makeService() {
+  const Fresh = class extends Base {
+    static instances = { count: 0 };
+    config = { retries: 3 };
+    call(): string {
+      return "called";
+    }
+  };
+  return new Fresh();
+}
+
+Deno.test("harden - freezes the instance, its prototype chain and constructors", () => {
+  const service = makeService();
+  const proto = Object.getPrototypeOf(service);
+  harden(service);
+  assertEquals(Object.isFrozen(service.config), true);
+  assertEquals(Object.isFrozen(proto), true);
+  assertEquals(Object.isFrozen(proto.call), true);
+  assertEquals(Object.isFrozen(proto.constructor), true);
+  assertEquals(Object.isFrozen(proto.constructor.instances), true);
+  assertThrows(() => {
+    proto.call = () => "patched";
+  }, TypeError);
+  assertEquals(service.call(), "called");
+});
+
+Deno.test("harden - freezes base classes and accessor functions", () => {
+  const service = new Service();
+  harden(service);
+  assertEquals(Object.isFrozen(Base.prototype), true);
+  assertEquals(Object.isFrozen(Base), true);
+  const label = Object.getOwnPropertyDescriptor(Service.prototype, "label")!;
+  assertEquals(Object.isFrozen(label.get), true);
+  assertEquals(isHardened(service), true);
+});
+
+Deno.test("harden - stops at shared intrinsics", () => {
+  harden({ list: [1, 2], when: new Date(), lookup: new Map() });
+  assertEquals(Object.isFrozen(Object.prototype), false);
+  assertEquals(Object.isFrozen(Array.prototype), false);
+  assertEquals(Object.isFrozen(Function.prototype), false);
+  assertEquals(Object.isFrozen(Map.prototype), false);
+});
+
+Deno.test("harden - stops at extra stop points", () => {
+  class Component {}
+  class Widget extends Component {}
+  const widget = harden(new Widget(), { stopAt: [Component, Component.prototype] });
+  assertEquals(Object.isFrozen(Widget.prototype), true);
+  assertEquals(Object.isFrozen(Component.prototype), false);
+  assertEquals(isHardened(widget), false);
+  assertEquals(isHardened(widget, { stopAt: [Component, Component.prototype] }), true);
+});
+
+Deno.test("harden - looks into objects that were already frozen", () => {
+  const service = freeze(makeService());
+  assertEquals(isHardened(service), false);
+  harden(service);
+  assertEquals(isHardened(service), true);
+});
+
+Deno.test("isHardened - primitives are hardened", () => {
+  assertEquals(isHardened(1), true);
+  assertEquals(isHardened(null), true);
+});
+
+Deno.test("isHardened - checks collection contents", () => {
+  const inner = { mutable: true };
+  const shallow = freeze({ lookup: new Map([["k", inner]]) }, { depth: 1 });
+  assertEquals(isHardened(shallow), false);
+  assertEquals(isHardened(harden(shallow)), true);
+  assertEquals(Object.isFrozen(inner), true);
+});
+
+Deno.test("harden - still freezes in production mode", () => {
+  configure({ mode: "production" });
+  try {
+    class Local {
+      run(): number {
+        return 1;
+      }
+    }
+    const value = harden(new Local());
+    assertEquals(Object.isFrozen(value), true);
+    assertEquals(Object.isFrozen(Local.prototype), true);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
@@ -0,0 +1,327 @@
+/**
+ * Structural hashing of frozen values.
+ *
+ * `structuralHash(value)` is a 32-bit hash of a frozen value's content,
+ * consistent with `deepEqual`: equal values hash alike. Property order and
+ * the order of Map entries and Set members don't matter; array order
+ * does.
+ *
+ * Frozen values can't change, so each object's hash is computed once and
+ * cached: hashing a tree that shares subtrees with trees hashed before
+ * costs a lookup per shared subtree. Objects on or above a cycle, and
+ * anything reached through a getter or a read-only view, are hashed
+ * afresh each time, since their hash would otherwise depend on where the
+ * hashing started or on values that can change.
+ *
+ * @module
+ */
+
+import { isBinary, unwrapBinary } from "./binary.ts";
+import { isProduction } from "./config.ts";
+import { isFacade } from "./lock.ts";
+import { errorFields, primitiveOf } from "./objects.ts";
+import { isOpaque } from "./opaque.ts";
+import { getTypeHandler } from "./registry.ts";
+import type { BinaryData, FrozenBrand, Primitive } from "./types.ts";
+import { isValidatable, VALIDATE } from "./types.ts";
+import { findUnfrozenPath, FrozenAssertionError, isFrozen, isShallowFrozen } from "./validation.ts";
+import { isReadonlyView, unwrapView } from "./view.ts";
+
+// =============================================================================
+// Mixing
+// =============================================================================
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/** Stands in for an object that is already being hashed. */
+const CYCLE = 0x9e3779b9;
+
+function hashString(text: string): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/** Spread the bits of a hash, so that sums of hashes stay well mixed. */
+function avalanche(hash: number): number {
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/** Add a hash to an ordered combination. */
+function combine(hash: number, value: number): number {
+  return Math.imul(hash ^ value, FNV_PRIME) >>> 0;
+}
+
+/** Add a hash to an unordered combination. */
+function add(sum: number, value: number): number {
+  return (sum + avalanche(value)) >>> 0;
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/** Object -> its hash, for objects whose whole content is immutable. */
+const HASHES = new WeakMap<object, number>();
+
+/**
+ * State of one `structuralHash()` call.
+ */
+interface Hashing {
+  /** The value being hashed, for error messages. */
+  readonly root: unknown;
+
+  /** Objects being hashed. */
+  readonly active: Set<object>;
+
+  /** Set once the current hash reached a cycle. */
+  cyclic: boolean;
+
+  /** Set once the current hash read something that can still change. */
+  mutable: boolean;
+
+  /**
+   * Whether values reached are checked to be frozen: not below facades
+   * and symbol keys, which `isFrozen` doesn't look into, nor in
+   * production mode.
+   */
+  checking: boolean;
+}
+
+function reject(h: Hashing): never {
+  const path = findUnfrozenPath(h.root);
+  throw new FrozenAssertionError(
+    `Expected value to be deeply frozen, but ${path || "the value"} is not. ` +
+      `Use freeze() or frozenCopy() to create immutable data.`,
+    h.root,
+    path ?? undefined
+  );
+}
+
+function ctorName(obj: object): string {
+  const proto = Object.getPrototypeOf(obj);
+  return proto === null ? "null" : String(proto.constructor?.name ?? "");
+}
+
+function hashValue(value: unknown, h: Hashing): number {
+  switch (typeof value) {
+    case "string":
+      return hashString(`s:${value}`);
+    case "number":
+      // 0 and -0 are equal, like NaN and NaN
+      return hashString(`n:${value === 0 ? 0 : value}`);
+    case "bigint":
+      return hashString(`b:${value}`);
+    case "boolean":
+      return hashString(value ? "true" : "false");
+    case "undefined":
+      return hashString("undefined");
+    case "symbol":
+      return hashString(`y:${value.description ?? ""}`);
+    case "function":
+      // Functions are only equal to themselves; their name is stable
+      if (h.checking && !isFrozen(value)) reject(h);
+      return hashString(`f:${value.name}`);
+  }
+  if (value === null) {
+    return hashString("null");
+  }
+  return hashObject(value as object, h);
+}
+
+function hashObject(obj: object, h: Hashing): number {
+  const cached = HASHES.get(obj);
+  if (cached !== undefined) {
+    return cached;
+  }
+  if (h.active.has(obj)) {
+    h.cyclic = true;
+    return CYCLE;
+  }
+
+  const outerCyclic = h.cyclic;
+  const outerMutable = h.mutable;
+  const outerChecking = h.checking;
+  h.cyclic = false;
+  h.mutable = !isShallowFrozen(obj) || isReadonlyView(obj);
+
+  if (h.checking) {
+    if (!isShallowFrozen(obj) || (isValidatable(obj) && !obj[VALIDATE](isFrozen))) {
+      reject(h);
+    }
+    // What a facade stands for is its own business
+    if (isFacade(obj)) h.checking = false;
+  }
+
+  h.active.add(obj);
+  const hash = avalanche(combine(hashString(ctorName(obj)), hashContents(unwrapView(obj), h)));
+  h.active.delete(obj);
+
+  // Objects that weren't checked may hold something isFrozen rejects
+  if (!h.cyclic && !h.mutable && outerChecking) {
+    HASHES.set(obj, hash);
+  }
+  h.cyclic = outerCyclic || h.cyclic;
+  h.mutable = outerMutable || h.mutable;
+  h.checking = outerChecking;
+  return hash;
+}
+
+function hashContents(obj: object, h: Hashing): number {
+  const children = getTypeHandler(obj)?.children;
+  if (children) {
+    return hashList(children(obj), h);
+  }
+  if (isBinary(obj)) {
+    return hashBytes(obj);
+  }
+  if (isOpaque(obj)) {
+    return 0;
+  }
+
+  if (Array.isArray(obj)) {
+    return combine(hashList(obj, h), obj.length);
+  }
+  if (obj instanceof Map) {
+    let sum = 0;
+    for (const [key, value] of obj) {
+      sum = add(sum, combine(hashValue(key, h), hashValue(value, h)));
+    }
+    return sum;
+  }
+  if (obj instanceof Set) {
+    let sum = 0;
+    for (const item of obj) {
+      sum = add(sum, hashValue(item, h));
+    }
+    return sum;
+  }
+  if (obj instanceof Date) {
+    return hashString(String(obj.getTime()));
+  }
+  if (obj instanceof RegExp) {
+    return hashString(`${obj.source}/${obj.flags}`);
+  }
+  if (obj instanceof URL || obj instanceof URLSearchParams) {
+    return hashString(obj.toString());
+  }
+  if (obj instanceof Headers) {
+    return hashList(obj, h);
+  }
+  if (obj instanceof Error) {
+    // Their own fields aren't enumerable
+    return combine(hashList(errorFields(obj), h), hashProperties(obj, h));
+  }
+  if (
+    obj instanceof Number ||
+    obj instanceof String ||
+    obj instanceof Boolean ||
+    obj instanceof BigInt ||
+    obj instanceof Symbol
+  ) {
+    // Undefined if it only inherits from a wrapper's prototype
+    return combine(hashValue(primitiveOf(obj), h), hashProperties(obj, h));
+  }
+  return hashProperties(obj, h);
+}
+
+function hashList(items: Iterable<unknown>, h: Hashing): number {
+  let hash = FNV_OFFSET;
+  for (const item of items) {
+    hash = combine(hash, hashValue(item, h));
+  }
+  return hash;
+}
+
+/**
+ * Hash own enumerable properties, string and symbol keyed, in any order.
+ * Non-enumerable ones don't count, but still have to be frozen.
+ */
+function hashProperties(obj: object, h: Hashing): number {
+  let sum = 0;
+  const keys = Reflect.ownKeys(obj);
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i]!;
+    const descriptor = Object.getOwnPropertyDescriptor(obj, key)!;
+    if (!descriptor.enumerable) {
+      const checked = h.checking && typeof key === "string" && "value" in descriptor;
+      if (checked && !isFrozen(descriptor.value)) reject(h);
+      continue;
+    }
+
+    let value: unknown;
+    if ("value" in descriptor) {
+      value = descriptor.value;
+    } else {
+      // A getter may return something else next time, frozen or not
+      h.mutable = true;
+      value = Reflect.get(obj, key);
+    }
+
+    if (typeof key === "symbol") {
+      const checking = h.checking;
+      h.checking = false;
+      sum = add(sum, combine(hashString(`y:${key.description ?? ""}`), hashValue(value, h)));
+      h.checking = checking;
+    } else {
+      sum = add(sum, combine(hashString(key), hashValue(value, h)));
+    }
+  }
+  return sum;
+}
+
+function hashBytes(value: BinaryData): number {
+  const source = unwrapBinary(value);
+  const bytes = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < bytes.length; i++) {
+    hash = Math.imul(hash ^ bytes[i]!, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compute a structural hash of a frozen value: an unsigned 32-bit integer
+ * that depends only on the value's content, the same way `deepEqual`
+ * compares it. Values `deepEqual` considers equal hash alike, except for
+ * cyclic graphs that are equal only once their cycles are unrolled.
+ * Property, Map and Set order don't affect the hash.
+ *
+ * Hashes of objects are cached, so hashing again - or hashing a tree that
+ * shares frozen subtrees with one hashed before - is cheap. Cyclic parts
+ * are hashed afresh each time.
+ *
+ * Use it with `deepEqual` to key caches by frozen values: equal hashes
+ * don't guarantee equal values.
+ *
+ * @param value - Deeply frozen value (or a primitive)
+ * @returns Hash of the value's content
+ * @throws FrozenAssertionError if the value doesn't pass `isFrozen` (not
+ *   checked in production mode, where freezing is skipped)
+ *
+ * @example
+ * ```ts
+ * const key = structuralHash(query);
+ * const hit = cache.get(key)?.find((entry) => deepEqual(entry.query, query));
+ * ```
+ */
+export function structuralHash(value: FrozenBrand | Primitive): number {
+  return hashValue(value, {
+    root: value,
+    active: new Set(),
+    cyclic: false,
+    mutable: false,
+    checking: !isProduction(),
+  });
+}
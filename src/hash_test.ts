@@ -0,0 +1,142 @@
+import { assertEquals, assertNotEquals, assertThrows } from "jsr:@std/assert";
+import { configure } from "./config.ts";
+import { Box, countChildren } from "./fixtures_test.ts";
+import { freeze } from "./freeze.ts";
+import { structuralHash } from "./hash.ts";
+import type { Frozen } from "./types.ts";
+import { FrozenAssertionError } from "./validation.ts";
+
+// =============================================================================
+// Content
+// =============================================================================
+
+Deno.test("structuralHash - equal content hashes alike", () => {
+  const a = freeze({ name: "Ada", tags: ["x", "y"], born: new Date(0) });
+  const b = freeze({ born: new Date(0), tags: ["x", "y"], name: "Ada" });
+  assertEquals(structuralHash(a), structuralHash(b));
+  assertEquals(structuralHash(a), structuralHash(a));
+});
+
+Deno.test("structuralHash - different content hashes differently", () => {
+  const hash = structuralHash(freeze({ tags: ["x", "y"] }));
+  assertNotEquals(structuralHash(freeze({ tags: ["y", "x"] })), hash);
+  assertNotEquals(structuralHash(freeze({ tags: ["x"] })), hash);
+  assertNotEquals(structuralHash(freeze({ labels: ["x", "y"] })), hash);
+  assertNotEquals(structuralHash(freeze({ tags: ["x", 1] })), structuralHash(freeze({ tags: ["x", "1"] })));
+});
+
+Deno.test("structuralHash - Map and Set order doesn't matter", () => {
+  const a = freeze({ m: new Map<unknown, number>([["a", 1], [{ k: 1 }, 2]]), s: new Set([1, 2, 3]) });
+  const b = freeze({ m: new Map<unknown, number>([[{ k: 1 }, 2], ["a", 1]]), s: new Set([3, 2, 1]) });
+  assertEquals(structuralHash(a), structuralHash(b));
+  assertNotEquals(
+    structuralHash(freeze(new Map([["a", 1], ["b", 2]]))),
+    structuralHash(freeze(new Map([["a", 2], ["b", 1]])))
+  );
+});
+
+Deno.test("structuralHash - primitives, NaN and -0", () => {
+  assertEquals(structuralHash(NaN), structuralHash(NaN));
+  assertEquals(structuralHash(0), structuralHash(-0));
+  assertNotEquals(structuralHash(1), structuralHash("1"));
+  assertNotEquals(structuralHash(null), structuralHash(undefined));
+});
+
+Deno.test("structuralHash - class and binary content", () => {
+  class Point {
+    constructor(readonly x: number) {}
+  }
+  assertEquals(structuralHash(freeze(new Point(1))), structuralHash(freeze(new Point(1))));
+  assertNotEquals(structuralHash(freeze(new Point(1))), structuralHash(freeze({ x: 1 })));
+  assertEquals(
+    structuralHash(freeze({ data: new Uint8Array([1, 2]) })),
+    structuralHash(freeze({ data: new Uint8Array([1, 2]) }))
+  );
+  assertNotEquals(
+    structuralHash(freeze({ data: new Uint8Array([1, 2]) })),
+    structuralHash(freeze({ data: new Uint8Array([2, 1]) }))
+  );
+});
+
+Deno.test("structuralHash - Errors by name, message, cause and errors", () => {
+  const hash = (error: Error) => structuralHash(freeze(error));
+  assertEquals(hash(new Error("a", { cause: { id: 1 } })), hash(new Error("a", { cause: { id: 1 } })));
+  assertNotEquals(hash(new Error("a")), hash(new Error("b")));
+  assertNotEquals(hash(new Error("a", { cause: 1 })), hash(new Error("a", { cause: 2 })));
+  assertNotEquals(hash(new AggregateError([1], "a")), hash(new AggregateError([2], "a")));
+});
+
+Deno.test("structuralHash - boxed primitives, with or without a value", () => {
+  assertEquals(structuralHash(freeze(Object(1n))), structuralHash(freeze(Object(1n))));
+  assertNotEquals(structuralHash(freeze(Object(1n))), structuralHash(freeze(Object(2n))));
+  assertNotEquals(structuralHash(freeze(new String("a"))), structuralHash(freeze(new String("b"))));
+  const empty = freeze(Object.create(Number.prototype));
+  assertEquals(structuralHash(empty), structuralHash(freeze(Object.create(Number.prototype))));
+});
+
+// =============================================================================
+// Cycles
+// =============================================================================
+
+Deno.test("structuralHash - cycles are stable whichever node is hashed first", () => {
+  function ring(): Frozen<{ name: string; next: any }> {
+    const a: any = { name: "a" };
+    const b: any = { name: "b", next: a };
+    a.next = b;
+    return freeze(a);
+  }
+  const first = ring();
+  const second = ring();
+  const hashA = structuralHash(first);
+  assertEquals(structuralHash(first.next), structuralHash(second.next));
+  assertEquals(structuralHash(second), hashA);
+  assertEquals(structuralHash(first), hashA);
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+Deno.test("structuralHash - rejects values that aren't deeply frozen", () => {
+  const error = assertThrows(
+    () => structuralHash(Object.freeze({ inner: { n: 1 } }) as any),
+    FrozenAssertionError
+  ) as FrozenAssertionError;
+  assertEquals(error.path, "inner");
+  assertThrows(() => structuralHash({} as any), FrozenAssertionError);
+});
+
+Deno.test("structuralHash - accepts anything in production mode", () => {
+  configure({ mode: "production" });
+  try {
+    assertEquals(structuralHash({ a: 1 } as any), structuralHash({ a: 1 } as any));
+  } finally {
+    configure({ mode: "development" });
+  }
+});
+
+// =============================================================================
+// Caching
+// =============================================================================
+
+Deno.test("structuralHash - hashes are cached per object", () => {
+  const shared = freeze(new Box({ n: 1 }));
+  const calls = countChildren(() => {
+    const hash = structuralHash(freeze({ a: shared }));
+    assertEquals(structuralHash(freeze({ a: shared })), hash);
+    structuralHash(freeze([shared, shared]));
+  });
+  assertEquals(calls, 1);
+});
+
+Deno.test("structuralHash - getters are read each time", () => {
+  let n = 1;
+  const value = Object.freeze({
+    get n() {
+      return n;
+    },
+  });
+  const before = structuralHash(value as any);
+  n = 2;
+  assertNotEquals(structuralHash(value as any), before);
+});
@@ -0,0 +1,129 @@
+/**
+ * The realm's shared intrinsics: built-in constructors, their prototypes,
+ * and the hidden prototypes behind iterators, generators and async
+ * functions.
+ *
+ * `harden()` stops at these, since freezing `Object.prototype` as a side
+ * effect of hardening one object would break unrelated code.
+ * `lockdown()` freezes them deliberately.
+ *
+ * @module
+ */
+
+// =============================================================================
+// Intrinsics
+// =============================================================================
+
+/** Global constructors whose constructor and prototype are intrinsics. */
+const CONSTRUCTOR_NAMES = [
+  "Object",
+  "Function",
+  "Array",
+  "Number",
+  "String",
+  "Boolean",
+  "Symbol",
+  "BigInt",
+  "Date",
+  "RegExp",
+  "Map",
+  "Set",
+  "WeakMap",
+  "WeakSet",
+  "WeakRef",
+  "FinalizationRegistry",
+  "Promise",
+  "Proxy",
+  "Error",
+  "AggregateError",
+  "EvalError",
+  "RangeError",
+  "ReferenceError",
+  "SyntaxError",
+  "TypeError",
+  "URIError",
+  "ArrayBuffer",
+  "SharedArrayBuffer",
+  "DataView",
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+] as const;
+
+/** Global namespace objects. */
+const NAMESPACE_NAMES = ["Math", "JSON", "Reflect", "Atomics", "Intl"] as const;
+
+let cached: Map<string, object> | undefined;
+let cachedSet: Set<object> | undefined;
+
+/**
+ * Collect the intrinsics of the current realm, by name.
+ * Hidden intrinsics use the spec's `%Name%` notation.
+ */
+export function namedIntrinsics(): ReadonlyMap<string, object> {
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const found = new Map<string, object>();
+  const add = (name: string, value: unknown): void => {
+    if ((typeof value === "object" && value !== null) || typeof value === "function") {
+      found.set(name, value);
+    }
+  };
+  const global = globalThis as unknown as Record<string, unknown>;
+
+  for (const name of CONSTRUCTOR_NAMES) {
+    const ctor = global[name] as { prototype?: unknown } | undefined;
+    add(name, ctor);
+    add(`${name}.prototype`, ctor?.prototype);
+  }
+  for (const name of NAMESPACE_NAMES) {
+    add(name, global[name]);
+  }
+
+  const typedArray = Object.getPrototypeOf(Uint8Array);
+  add("%TypedArray%", typedArray);
+  add("%TypedArray%.prototype", typedArray.prototype);
+
+  const arrayIterator = Object.getPrototypeOf([][Symbol.iterator]());
+  add("%ArrayIteratorPrototype%", arrayIterator);
+  add("%IteratorPrototype%", Object.getPrototypeOf(arrayIterator));
+  add("%MapIteratorPrototype%", Object.getPrototypeOf(new Map()[Symbol.iterator]()));
+  add("%SetIteratorPrototype%", Object.getPrototypeOf(new Set()[Symbol.iterator]()));
+  add("%StringIteratorPrototype%", Object.getPrototypeOf(""[Symbol.iterator]()));
+  add("%RegExpStringIteratorPrototype%", Object.getPrototypeOf(/(?:)/[Symbol.matchAll]("")));
+
+  const generatorFunction = Object.getPrototypeOf(function* () {}).constructor;
+  add("%GeneratorFunction%", generatorFunction);
+  add("%GeneratorFunction.prototype%", generatorFunction.prototype);
+  add("%GeneratorPrototype%", generatorFunction.prototype.prototype);
+
+  const asyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+  add("%AsyncFunction%", asyncFunction);
+  add("%AsyncFunction.prototype%", asyncFunction.prototype);
+
+  const asyncGeneratorFunction = Object.getPrototypeOf(async function* () {}).constructor;
+  add("%AsyncGeneratorFunction%", asyncGeneratorFunction);
+  add("%AsyncGeneratorFunction.prototype%", asyncGeneratorFunction.prototype);
+  add("%AsyncGeneratorPrototype%", asyncGeneratorFunction.prototype.prototype);
+  add("%AsyncIteratorPrototype%", Object.getPrototypeOf(asyncGeneratorFunction.prototype.prototype));
+
+  cached = found;
+  return found;
+}
+
+/**
+ * The intrinsics of the current realm as a set, for membership checks.
+ */
+export function sharedIntrinsics(): ReadonlySet<object> {
+  return (cachedSet ??= new Set(namedIntrinsics().values()));
+}
@@ -0,0 +1,341 @@
+/**
+ * Runtime locks for built-ins whose state lives in internal slots.
+ *
+ * `Object.freeze` only covers own properties. A Map's entries, a Set's
+ * members and a Date's time value live in internal slots that
+ * `Map.prototype.set`, `Date.prototype.setTime` and friends keep mutating
+ * after the instance is frozen. Locking shadows those methods with
+ * non-writable, non-configurable own properties that throw, so the instance
+ * keeps its identity and `instanceof` checks while rejecting mutation.
+ *
+ * URLs are locked the same way, with their setters (`href`, `pathname`,
+ * ...) shadowed by own accessors that throw. An Error's `stack` is an own
+ * accessor in V8 that stays assignable after `Object.freeze`; locking
+ * turns it into a data property holding the current trace.
+ *
+ * Calling the prototype method directly (`Map.prototype.set.call(map, ...)`)
+ * still reaches the internal slot; locking guards the ordinary call paths.
+ *
+ * Values that can't be locked in place (binary data) are replaced by
+ * read-only facades instead. Facades are registered here too, so there is
+ * one place to ask whether something is immobile.
+ *
+ * @module
+ */
+
+// =============================================================================
+// Lock Registry
+// =============================================================================
+
+/**
+ * Every instance that has been locked by this module.
+ * Used by validation to tell a locked Map from one that was only
+ * `Object.freeze`d by hand.
+ */
+const LOCKED = new WeakSet<object>();
+
+/**
+ * Every read-only facade created by the library.
+ * Facades are Proxies that reject mutation; they are never `Object.freeze`d.
+ */
+const FACADES = new WeakSet<object>();
+
+const MAP_MUTATORS = ["set", "delete", "clear"] as const;
+const SET_MUTATORS = ["add", "delete", "clear"] as const;
+const DATE_MUTATORS = [
+  "setTime",
+  "setMilliseconds",
+  "setUTCMilliseconds",
+  "setSeconds",
+  "setUTCSeconds",
+  "setMinutes",
+  "setUTCMinutes",
+  "setHours",
+  "setUTCHours",
+  "setDate",
+  "setUTCDate",
+  "setMonth",
+  "setUTCMonth",
+  "setFullYear",
+  "setUTCFullYear",
+  // Annex B legacy setter
+  "setYear",
+] as const;
+const URL_SEARCH_PARAMS_MUTATORS = ["append", "delete", "set", "sort"] as const;
+const HEADERS_MUTATORS = ["append", "delete", "set"] as const;
+const URL_SETTERS = [
+  "href",
+  "protocol",
+  "username",
+  "password",
+  "host",
+  "hostname",
+  "port",
+  "pathname",
+  "search",
+  "hash",
+] as const;
+
+/**
+ * Create the throwing stand-in for a mutating method.
+ * An arrow function, so there is no mutable `prototype` object hanging off it.
+ */
+function rejecter(typeName: string, method: string): () => never {
+  const reject = (): never => {
+    throw new TypeError(`Cannot call ${method}() on a frozen ${typeName}`);
+  };
+  Object.defineProperty(reject, "name", { value: method });
+  return Object.freeze(reject);
+}
+
+// Shared across all locked instances - the stand-ins carry no state
+const MAP_REJECTERS = MAP_MUTATORS.map((m) => rejecter("Map", m));
+const SET_REJECTERS = SET_MUTATORS.map((m) => rejecter("Set", m));
+const DATE_REJECTERS = DATE_MUTATORS.map((m) => rejecter("Date", m));
+const URL_SEARCH_PARAMS_REJECTERS = URL_SEARCH_PARAMS_MUTATORS.map((m) =>
+  rejecter("URLSearchParams", m)
+);
+const HEADERS_REJECTERS = HEADERS_MUTATORS.map((m) => rejecter("Headers", m));
+
+/**
+ * Create the read-only stand-in for a URL accessor: the getter defers to
+ * `URL.prototype`, the setter throws. Method-literal accessors have no
+ * `prototype` object either.
+ */
+function readonlyAccessor(key: string): PropertyDescriptor {
+  const get = Object.getOwnPropertyDescriptor(URL.prototype, key)!.get!;
+  const { get: readonlyGet, set: readonlySet } = Object.getOwnPropertyDescriptor(
+    {
+      get value(): unknown {
+        return get.call(this);
+      },
+      set value(_: unknown) {
+        throw new TypeError(`Cannot assign to ${key} of a frozen URL`);
+      },
+    },
+    "value"
+  )!;
+  return {
+    get: Object.freeze(readonlyGet!),
+    set: Object.freeze(readonlySet!),
+    enumerable: false,
+    configurable: false,
+  };
+}
+
+const URL_ACCESSORS = typeof URL === "undefined" ? [] : URL_SETTERS.map(readonlyAccessor);
+
+function isURL(obj: object): obj is URL {
+  return typeof URL !== "undefined" && obj instanceof URL;
+}
+
+function isURLSearchParams(obj: object): obj is URLSearchParams {
+  return typeof URLSearchParams !== "undefined" && obj instanceof URLSearchParams;
+}
+
+function isHeaders(obj: object): obj is Headers {
+  return typeof Headers !== "undefined" && obj instanceof Headers;
+}
+
+// =============================================================================
+// Locking
+// =============================================================================
+
+/**
+ * Check whether a value keeps mutable state outside its own properties
+ * and therefore needs a lock (or a facade) on top of `Object.freeze`.
+ */
+export function requiresLock(obj: object): boolean {
+  return (
+    obj instanceof Map ||
+    obj instanceof Set ||
+    obj instanceof Date ||
+    (obj instanceof Error && hasStackAccessor(obj)) ||
+    isURL(obj) ||
+    isURLSearchParams(obj) ||
+    isHeaders(obj) ||
+    ArrayBuffer.isView(obj) ||
+    obj instanceof ArrayBuffer ||
+    (typeof SharedArrayBuffer !== "undefined" && obj instanceof SharedArrayBuffer)
+  );
+}
+
+/**
+ * Names of the methods a lock shadows on a Map, Set, Date, URLSearchParams
+ * or Headers; empty for other values.
+ */
+export function lockedMethods(obj: object): readonly string[] {
+  if (obj instanceof Map) return MAP_MUTATORS;
+  if (obj instanceof Set) return SET_MUTATORS;
+  if (obj instanceof Date) return DATE_MUTATORS;
+  if (isURLSearchParams(obj)) return URL_SEARCH_PARAMS_MUTATORS;
+  if (isHeaders(obj)) return HEADERS_MUTATORS;
+  return [];
+}
+
+/**
+ * Check whether a value has been locked.
+ */
+export function isLocked(obj: object): boolean {
+  return LOCKED.has(obj);
+}
+
+/**
+ * Shadow the mutating methods of a Map, Set, Date, URLSearchParams or
+ * Headers with throwing own properties, and the setters of a URL with
+ * throwing own accessors. A URL's `searchParams` is locked and frozen
+ * along with it. An Error's `stack` becomes a data property.
+ * Does not freeze the instance - callers follow up with `Object.freeze`.
+ *
+ * @param obj - Instance to lock
+ * @returns False if the instance is no longer extensible, or of a type that
+ *   can't be locked in place
+ */
+export function lock(obj: object): boolean {
+  if (LOCKED.has(obj)) {
+    return true;
+  }
+  if (!Object.isExtensible(obj)) {
+    return false;
+  }
+
+  if (obj instanceof Map) {
+    defineRejecters(obj, MAP_MUTATORS, MAP_REJECTERS);
+  } else if (obj instanceof Set) {
+    defineRejecters(obj, SET_MUTATORS, SET_REJECTERS);
+  } else if (obj instanceof Date) {
+    defineRejecters(obj, DATE_MUTATORS, DATE_REJECTERS);
+  } else if (isURL(obj)) {
+    const searchParams = obj.searchParams;
+    for (let i = 0; i < URL_SETTERS.length; i++) {
+      Object.defineProperty(obj, URL_SETTERS[i]!, URL_ACCESSORS[i]!);
+    }
+    if (lock(searchParams)) {
+      Object.freeze(searchParams);
+    }
+  } else if (isURLSearchParams(obj)) {
+    defineRejecters(obj, URL_SEARCH_PARAMS_MUTATORS, URL_SEARCH_PARAMS_REJECTERS);
+  } else if (isHeaders(obj)) {
+    defineRejecters(obj, HEADERS_MUTATORS, HEADERS_REJECTERS);
+  } else if (obj instanceof Error && hasStackAccessor(obj)) {
+    if (!materializeStack(obj)) {
+      return false;
+    }
+  } else {
+    return false;
+  }
+
+  LOCKED.add(obj);
+  return true;
+}
+
+function defineRejecters(
+  obj: object,
+  methods: readonly string[],
+  rejecters: readonly (() => never)[]
+): void {
+  for (let i = 0; i < methods.length; i++) {
+    Object.defineProperty(obj, methods[i]!, {
+      value: rejecters[i],
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    });
+  }
+}
+
+/**
+ * Check whether a value needs a lock but can no longer get one, because
+ * it was made non-extensible (`Object.freeze`d by hand, say) first.
+ */
+export function isUnlockable(obj: object): boolean {
+  return !Object.isExtensible(obj) && requiresLock(obj) && !LOCKED.has(obj);
+}
+
+/**
+ * Copy an unlockable Map, Set, Date, URL, URLSearchParams or Headers into
+ * a fresh instance that can be locked, with the same contents and own
+ * properties.
+ *
+ * @returns The copy, or undefined for other values - subclasses included,
+ *   since their private state can't be copied
+ */
+export function lockableCopy(obj: object): object | undefined {
+  const copy = copyBuiltIn(obj);
+  if (copy !== undefined) {
+    Object.defineProperties(copy, Object.getOwnPropertyDescriptors(obj));
+  }
+  return copy;
+}
+
+function copyBuiltIn(obj: object): object | undefined {
+  const proto = Object.getPrototypeOf(obj);
+  if (proto === Map.prototype) return new Map(obj as Map<unknown, unknown>);
+  if (proto === Set.prototype) return new Set(obj as Set<unknown>);
+  if (proto === Date.prototype) return new Date((obj as Date).getTime());
+  if (isURL(obj) && proto === URL.prototype) return new URL(obj.href);
+  if (isURLSearchParams(obj) && proto === URLSearchParams.prototype) {
+    return new URLSearchParams(obj);
+  }
+  if (isHeaders(obj) && proto === Headers.prototype) return new Headers(obj);
+  return undefined;
+}
+
+function hasStackAccessor(error: Error): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(error, "stack");
+  return descriptor !== undefined && !("value" in descriptor);
+}
+
+/**
+ * Replace an Error's own `stack` accessor with a data property holding
+ * the trace it currently reports.
+ *
+ * @returns False if the accessor is not configurable
+ */
+function materializeStack(error: Error): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(error, "stack")!;
+  if (!descriptor.configurable) {
+    return false;
+  }
+  Object.defineProperty(error, "stack", {
+    value: error.stack,
+    writable: true,
+    enumerable: descriptor.enumerable,
+    configurable: true,
+  });
+  return true;
+}
+
+// =============================================================================
+// Facades
+// =============================================================================
+
+/**
+ * Record a Proxy as a read-only facade.
+ */
+export function registerFacade(facade: object): void {
+  FACADES.add(facade);
+}
+
+/**
+ * Check whether a value is a read-only facade created by the library.
+ * Facades are immobile but must not be traversed like ordinary objects.
+ */
+export function isFacade(obj: object): boolean {
+  return FACADES.has(obj);
+}
+
+// =============================================================================
+// Immobility
+// =============================================================================
+
+/**
+ * Shallow immobility check: the value is a facade, or it is frozen and,
+ * if it keeps internal-slot state, also locked.
+ */
+export function isImmobile(obj: object): boolean {
+  if (FACADES.has(obj)) {
+    return true;
+  }
+  return Object.isFrozen(obj) && (!requiresLock(obj) || LOCKED.has(obj));
+}
@@ -0,0 +1,122 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { isImmobile, isLocked, lock, requiresLock } from "./lock.ts";
+
+// =============================================================================
+// requiresLock
+// =============================================================================
+
+Deno.test("requiresLock - true for Map and Set", () => {
+  assertEquals(requiresLock(new Map()), true);
+  assertEquals(requiresLock(new Set()), true);
+});
+
+Deno.test("requiresLock - true for Date", () => {
+  assertEquals(requiresLock(new Date()), true);
+});
+
+Deno.test("requiresLock - true for URL, URLSearchParams, Headers and Errors", () => {
+  assertEquals(requiresLock(new URL("https://example.com")), true);
+  assertEquals(requiresLock(new URLSearchParams()), true);
+  assertEquals(requiresLock(new Headers()), true);
+  assertEquals(requiresLock(new Error("boom")), true);
+  assertEquals(requiresLock(Object.create(Error.prototype)), false);
+});
+
+Deno.test("requiresLock - false for plain objects and arrays", () => {
+  assertEquals(requiresLock({}), false);
+  assertEquals(requiresLock([]), false);
+});
+
+// =============================================================================
+// lock
+// =============================================================================
+
+Deno.test("lock - shadows Map mutators with throwing methods", () => {
+  const map = new Map([["a", 1]]);
+  assertEquals(lock(map), true);
+  assertEquals(isLocked(map), true);
+  assertThrows(() => map.set("b", 2), TypeError, "Cannot call set() on a frozen Map");
+  assertEquals(map.get("a"), 1);
+});
+
+Deno.test("lock - shadows Set mutators with throwing methods", () => {
+  const set = new Set([1]);
+  lock(set);
+  assertThrows(() => set.add(2), TypeError, "Cannot call add() on a frozen Set");
+  assertEquals(set.has(1), true);
+});
+
+Deno.test("lock - shadows URL setters and locks its searchParams", () => {
+  const url = new URL("https://example.com/a?q=1");
+  lock(url);
+  assertThrows(
+    () => {
+      url.pathname = "/b";
+    },
+    TypeError,
+    "Cannot assign to pathname of a frozen URL"
+  );
+  assertThrows(() => url.searchParams.set("q", "2"), TypeError);
+  assertEquals(Object.isFrozen(url.searchParams), true);
+  assertEquals(url.pathname, "/a");
+  assertEquals(url.href, "https://example.com/a?q=1");
+});
+
+Deno.test("lock - shadows Headers mutators", () => {
+  const headers = new Headers({ accept: "text/html" });
+  lock(headers);
+  assertThrows(() => headers.set("accept", "*/*"), TypeError, "Cannot call set() on a frozen Headers");
+  assertEquals(headers.get("accept"), "text/html");
+});
+
+Deno.test("lock - turns an Error's stack into a data property", () => {
+  const error = new Error("boom");
+  const stack = error.stack;
+  lock(error);
+  assertEquals("value" in Object.getOwnPropertyDescriptor(error, "stack")!, true);
+  assertEquals(error.stack, stack);
+});
+
+Deno.test("lock - shadows Date setters with throwing methods", () => {
+  const date = new Date(0);
+  lock(date);
+  assertThrows(() => date.setTime(1), TypeError, "Cannot call setTime() on a frozen Date");
+  assertThrows(() => date.setMonth(1), TypeError);
+  assertEquals(date.getTime(), 0);
+});
+
+Deno.test("lock - locks Map subclasses", () => {
+  class Registry extends Map<string, number> {}
+  const registry = new Registry();
+  lock(registry);
+  assertThrows(() => registry.set("a", 1), TypeError);
+});
+
+Deno.test("lock - returns false when instance is already non-extensible", () => {
+  const map = Object.freeze(new Map());
+  assertEquals(lock(map), false);
+  assertEquals(isLocked(map), false);
+});
+
+Deno.test("lock - is idempotent", () => {
+  const set = new Set();
+  lock(set);
+  assertEquals(lock(set), true);
+});
+
+// =============================================================================
+// isImmobile
+// =============================================================================
+
+Deno.test("isImmobile - requires both lock and freeze for Maps", () => {
+  const map = new Map();
+  lock(map);
+  assertEquals(isImmobile(map), false);
+  Object.freeze(map);
+  assertEquals(isImmobile(map), true);
+});
+
+Deno.test("isImmobile - plain frozen object is immobile", () => {
+  assertEquals(isImmobile(Object.freeze({})), true);
+  assertEquals(isImmobile({}), false);
+});
@@ -0,0 +1,179 @@
+/**
+ * Flash-Freeze Lockdown
+ *
+ * Prototype pollution works by writing to shared intrinsics:
+ * `Object.prototype.isAdmin = true` changes every object in the realm.
+ * `lockdown()` hardens the intrinsics themselves, with the same traversal
+ * `harden()` uses, so such writes throw (in strict code) or are ignored.
+ *
+ * Lockdown is permanent and realm-wide. Call it once, early, in a realm
+ * that runs untrusted code - a plugin host's Worker, for example - and
+ * never in a library.
+ *
+ * @module
+ */
+
+import { freezeAlways } from "./freeze.ts";
+import type { FreezeOptions } from "./freeze.ts";
+import { walkReachable } from "./harden.ts";
+import { namedIntrinsics } from "./intrinsics.ts";
+import { isShallowFrozen } from "./validation.ts";
+
+// =============================================================================
+// Options and Report
+// =============================================================================
+
+/**
+ * Inherited properties that ordinary code assigns on its own objects.
+ *
+ * Once `Error.prototype.name` is frozen, `this.name = "MyError"` in an
+ * Error subclass throws, because assigning a property that is read-only on
+ * the prototype fails (the "override mistake"). These properties are kept
+ * overridable by default.
+ */
+export const DEFAULT_OVERRIDES: readonly string[] = Object.freeze([
+  "Object.prototype.constructor",
+  "Object.prototype.toString",
+  "Object.prototype.toLocaleString",
+  "Object.prototype.valueOf",
+  "Object.prototype.hasOwnProperty",
+  "Error.prototype.name",
+  "Error.prototype.message",
+  "Error.prototype.constructor",
+  "Function.prototype.toString",
+]);
+
+/**
+ * Options for `lockdown()`.
+ */
+export interface LockdownOptions {
+  /**
+   * Inherited properties that objects may still assign as their own,
+   * written `<intrinsic>.<property>`, e.g. `"Promise.prototype.then"`.
+   * Added to `DEFAULT_OVERRIDES`. The intrinsic's own value stays frozen.
+   */
+  readonly overrides?: readonly string[];
+}
+
+/**
+ * What `lockdown()` did.
+ */
+export interface LockdownReport {
+  /** Intrinsics, by name, that were frozen by this call. */
+  readonly frozen: readonly string[];
+
+  /** Properties made overridable by this call. */
+  readonly overrides: readonly string[];
+
+  /** Objects and functions frozen, intrinsics and everything reachable from them. */
+  readonly objects: number;
+}
+
+// =============================================================================
+// Overrides
+// =============================================================================
+
+/**
+ * Replace a data property of an intrinsic with an accessor pair that reads
+ * the original value and, when assigned through an inheriting object,
+ * defines an own property on that object instead.
+ *
+ * @returns False if the property is not an own configurable data property
+ *   (for instance because a previous lockdown converted it already)
+ */
+function enableOverride(intrinsic: object, key: string, path: string): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(intrinsic, key);
+  if (descriptor === undefined || !("value" in descriptor) || !descriptor.configurable) {
+    return false;
+  }
+
+  const value: unknown = descriptor.value;
+  Object.defineProperty(intrinsic, key, {
+    get() {
+      return value;
+    },
+    set(this: unknown, newValue: unknown) {
+      if (this === intrinsic || this === null || typeof this !== "object") {
+        throw new TypeError(`Cannot assign to read only property ${path}`);
+      }
+      Object.defineProperty(this, key, {
+        value: newValue,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    },
+    enumerable: descriptor.enumerable,
+    configurable: false,
+  });
+  return true;
+}
+
+// =============================================================================
+// Lockdown
+// =============================================================================
+
+/**
+ * Freeze the realm's intrinsics - `Object.prototype`, `Array.prototype`,
+ * `Function.prototype`, the built-in constructors and namespaces, and the
+ * hidden iterator and generator prototypes - along with every method,
+ * accessor and object reachable from them.
+ *
+ * The global object itself is not frozen.
+ *
+ * @param options - Extra properties to keep overridable
+ * @returns Report of what was frozen
+ * @throws TypeError if an override names an unknown intrinsic
+ *
+ * @example
+ * ```ts
+ * // First thing in the plugin Worker
+ * lockdown({ overrides: ["Promise.prototype.then"] });
+ *
+ * Object.prototype.isAdmin = true; // TypeError in strict mode
+ * ```
+ */
+export function lockdown(options?: LockdownOptions): LockdownReport {
+  const intrinsics = namedIntrinsics();
+
+  // Resolve every override before changing anything
+  const targets: [path: string, intrinsic: object, key: string][] = [];
+  for (const path of [...DEFAULT_OVERRIDES, ...(options?.overrides ?? [])]) {
+    const dot = path.lastIndexOf(".");
+    const intrinsic = intrinsics.get(path.slice(0, dot));
+    if (dot < 0 || intrinsic === undefined) {
+      throw new TypeError(`Unknown intrinsic in override ${path}`);
+    }
+    targets.push([path, intrinsic, path.slice(dot + 1)]);
+  }
+
+  const overrides: string[] = [];
+  for (const [path, intrinsic, key] of targets) {
+    if (enableOverride(intrinsic, key, path)) {
+      overrides.push(path);
+    }
+  }
+
+  const frozen: string[] = [];
+  for (const [name, intrinsic] of intrinsics) {
+    if (!Object.isFrozen(intrinsic)) {
+      frozen.push(name);
+    }
+  }
+
+  let objects = 0;
+  const freezeOptions: FreezeOptions = {
+    functions: "prototype",
+    onVisit: () => {
+      objects++;
+    },
+  };
+  walkReachable([...intrinsics.values()], new Set(), (value) => {
+    if (!isShallowFrozen(value)) {
+      freezeAlways(value, freezeOptions);
+    }
+    return true;
+  });
+
+  return freezeAlways({ frozen, overrides, objects });
+}
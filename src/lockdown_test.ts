@@ -0,0 +1,115 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { DEFAULT_OVERRIDES, lockdown } from "./lockdown.ts";
+
+/**
+ * Run lockdown in a fresh Worker realm, so the test realm's intrinsics
+ * stay mutable, and collect what the Worker observed.
+ */
+async function inWorker(body: string): Promise<Record<string, unknown>> {
+  const moduleUrl = new URL("./lockdown.ts", import.meta.url).href;
+  const source = `
+    import { lockdown } from ${JSON.stringify(moduleUrl)};
+    const result = {};
+    const attempt = (fn) => {
+      try {
+        fn();
+        return "ok";
+      } catch (error) {
+        return error.name;
+      }
+    };
+    ${body}
+    self.postMessage(result);
+  `;
+  const url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+  const worker = new Worker(url, { type: "module" });
+  try {
+    return await new Promise((resolve, reject) => {
+      worker.onmessage = (event) => resolve(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        reject(new Error(event.message));
+      };
+    });
+  } finally {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  }
+}
+
+Deno.test("lockdown - freezes intrinsics and reports them", async () => {
+  const result = await inWorker(`
+    const report = lockdown();
+    result.frozen = report.frozen.length;
+    result.hasObjectPrototype = report.frozen.includes("Object.prototype");
+    result.objects = report.objects;
+    result.arrayPrototype = Object.isFrozen(Array.prototype);
+    result.mapSet = Object.isFrozen(Map.prototype.set);
+    result.iterator = Object.isFrozen(Object.getPrototypeOf(Object.getPrototypeOf([].values())));
+    result.again = lockdown().frozen.length;
+  `);
+  assertEquals(result.hasObjectPrototype, true);
+  assertEquals((result.frozen as number) > 50, true);
+  assertEquals((result.objects as number) > (result.frozen as number), true);
+  assertEquals(result.arrayPrototype, true);
+  assertEquals(result.mapSet, true);
+  assertEquals(result.iterator, true);
+  assertEquals(result.again, 0);
+  assertEquals(Object.isFrozen(Array.prototype), false);
+});
+
+Deno.test("lockdown - blocks prototype pollution", async () => {
+  const result = await inWorker(`
+    lockdown();
+    result.pollute = attempt(() => { Object.prototype.isAdmin = true; });
+    result.patch = attempt(() => { Array.prototype.map = () => []; });
+    result.polluted = ({}).isAdmin === undefined ? "clean" : "polluted";
+    result.ordinary = attempt(() => {
+      const obj = { a: 1 };
+      obj.b = [1, 2].map((x) => x * 2);
+      new Map([[1, 2]]).set(3, 4);
+    });
+  `);
+  assertEquals(result.pollute, "TypeError");
+  assertEquals(result.patch, "TypeError");
+  assertEquals(result.polluted, "clean");
+  assertEquals(result.ordinary, "ok");
+});
+
+Deno.test("lockdown - keeps allowed properties overridable", async () => {
+  const result = await inWorker(`
+    const report = lockdown({ overrides: ["Promise.prototype.then"] });
+    result.overrides = report.overrides;
+    result.errorName = attempt(() => {
+      class AppError extends Error {
+        constructor() {
+          super("failed");
+          this.name = "AppError";
+        }
+      }
+      if (new AppError().name !== "AppError") throw new Error("not overridden");
+    });
+    result.toString = attempt(() => {
+      const point = {};
+      point.toString = () => "point";
+      if (String(point) !== "point") throw new Error("not overridden");
+    });
+    result.then = attempt(() => {
+      const promise = Promise.resolve();
+      promise.then = () => promise;
+    });
+    result.intrinsic = attempt(() => { Error.prototype.name = "Hacked"; });
+  `);
+  assertEquals(result.overrides, [...DEFAULT_OVERRIDES, "Promise.prototype.then"]);
+  assertEquals(result.errorName, "ok");
+  assertEquals(result.toString, "ok");
+  assertEquals(result.then, "ok");
+  assertEquals(result.intrinsic, "TypeError");
+});
+
+Deno.test("lockdown - rejects overrides of unknown intrinsics before changing anything", () => {
+  assertThrows(() => lockdown({ overrides: ["Nope.prototype.x"] }), TypeError, "Nope");
+  const toString = Object.getOwnPropertyDescriptor(Object.prototype, "toString")!;
+  assertEquals("value" in toString, true);
+  assertEquals(Object.isFrozen(Object.prototype), false);
+});
@@ -0,0 +1,359 @@
+/**
+ * Deep merge of frozen values.
+ *
+ * `frozenMerge(defaults, env, cli)` merges layers of overrides into a base
+ * and returns a frozen result. Nested plain objects are merged property
+ * by property; arrays, Maps and Sets follow the default strategies, or the
+ * ones in `mergeOptions()` passed last; anything else in an override
+ * replaces what is in the base.
+ *
+ * Nothing is copied that doesn't change: every subtree of the base that
+ * no override touches is in the result by reference, and a merge that
+ * changes nothing returns the base itself. Values taken from overrides are
+ * frozen in place, like the values passed to `setIn()`.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import { copyKind, shallowCopy } from "./objects.ts";
+import { keyText } from "./path.ts";
+import type { DeepPartial, EnsureFrozen } from "./types.ts";
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * How arrays in an override are merged into arrays in the base:
+ *
+ * - `"replace"`: the override's array takes the base's place.
+ * - `"concat"`: the override's items are appended to the base's.
+ * - `"byKey"`: items are matched by key (`arrayKey`). Matched items are
+ *   merged in place; the rest are appended.
+ */
+export type ArrayMergeStrategy = "replace" | "concat" | "byKey";
+
+/**
+ * How Maps are merged: entry by entry, with values under the same key
+ * merged deeply (`"merge"`), or replaced whole (`"replace"`).
+ */
+export type MapMergeStrategy = "merge" | "replace";
+
+/**
+ * How Sets are merged: replaced whole (`"replace"`), or combined with the
+ * base's members (`"union"`).
+ */
+export type SetMergeStrategy = "replace" | "union";
+
+/**
+ * Options for `mergeOptions()`.
+ */
+export interface MergeOptions {
+  /** Array strategy. Default: `"replace"`. */
+  readonly arrays?: ArrayMergeStrategy;
+
+  /**
+   * Key of an array item for `arrays: "byKey"`: a property name, or a
+   * function computing the key. Items without a key are appended.
+   * Default: `"id"`.
+   */
+  readonly arrayKey?: string | ((item: unknown) => unknown);
+
+  /** Map strategy. Default: `"merge"`. */
+  readonly maps?: MapMergeStrategy;
+
+  /** Set strategy. Default: `"replace"`. */
+  readonly sets?: SetMergeStrategy;
+}
+
+/** Valid values of each option. */
+const OPTION_VALUES: Record<keyof MergeOptions, (value: unknown) => boolean> = {
+  arrays: (value) => value === "replace" || value === "concat" || value === "byKey",
+  arrayKey: (value) => typeof value === "string" || typeof value === "function",
+  maps: (value) => value === "merge" || value === "replace",
+  sets: (value) => value === "replace" || value === "union",
+};
+
+/**
+ * Check the options given to `mergeOptions()`, so that a misspelled
+ * strategy fails where it is set rather than merging some other way.
+ *
+ * @throws TypeError for an unknown option or an invalid value
+ */
+function checkOptions(options: MergeOptions): void {
+  for (const key of Reflect.ownKeys(options)) {
+    const value = (options as Record<PropertyKey, unknown>)[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Object.prototype.hasOwnProperty.call(OPTION_VALUES, key)) {
+      throw new TypeError(`Unknown merge option ${String(key)}`);
+    }
+    if (!OPTION_VALUES[key as keyof MergeOptions](value)) {
+      throw new TypeError(`Invalid merge option ${String(key)}: ${keyText(value)}`);
+    }
+  }
+}
+
+interface Strategies {
+  readonly arrays: ArrayMergeStrategy;
+  readonly keyOf: (item: unknown) => unknown;
+  readonly maps: MapMergeStrategy;
+  readonly sets: SetMergeStrategy;
+}
+
+function strategies(options: MergeOptions): Strategies {
+  const arrayKey = options.arrayKey ?? "id";
+  const propertyOf = (item: unknown) =>
+    item !== null && typeof item === "object" ? (item as Record<string, unknown>)[arrayKey as string] : undefined;
+  return {
+    arrays: options.arrays ?? "replace",
+    keyOf: typeof arrayKey === "function" ? arrayKey : propertyOf,
+    maps: options.maps ?? "merge",
+    sets: options.sets ?? "replace",
+  };
+}
+
+declare const MERGE_OPTIONS_BRAND: unique symbol;
+
+/**
+ * Options made by `mergeOptions()`, which `frozenMerge()` takes after the
+ * overrides.
+ */
+export type BrandedMergeOptions = MergeOptions & { readonly [MERGE_OPTIONS_BRAND]: true };
+
+/** Options made by `mergeOptions()` -> their strategies. */
+const BRANDED = new WeakMap<object, Strategies>();
+
+/**
+ * Make options for `frozenMerge()`. Only options made here are taken as
+ * options, so an override that looks like them - `{ sets: "union" }` in a
+ * config that has a `sets` field - is still merged as an override.
+ *
+ * @param options - Array, Map and Set strategies
+ * @returns Frozen options, to pass after the overrides
+ * @throws TypeError for an unknown option or an invalid value
+ *
+ * @example
+ * ```ts
+ * const byName = mergeOptions({ arrays: "byKey", arrayKey: "name" });
+ * const plugins = frozenMerge(base, extra, byName);
+ * ```
+ */
+export function mergeOptions(options: MergeOptions): BrandedMergeOptions {
+  checkOptions(options);
+  const branded = Object.freeze({ ...options });
+  BRANDED.set(branded, strategies(branded));
+  return branded as BrandedMergeOptions;
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+type MergeKind = "object" | "array" | "map" | "set";
+
+type List = readonly unknown[];
+
+/**
+ * What kind of value is merged rather than replaced, or undefined for
+ * anything that is replaced.
+ */
+function mergeKind(value: object): MergeKind | undefined {
+  const kind = copyKind(value);
+  return kind === "date" ? undefined : kind;
+}
+
+/**
+ * Merge an override into a base value.
+ *
+ * @returns The base if the override changes nothing, otherwise a new
+ *   value that shares every unchanged subtree with the base
+ */
+function mergeValue(base: unknown, override: unknown, s: Strategies): unknown {
+  if (override === undefined || Object.is(base, override)) {
+    return base;
+  }
+  if (base === null || typeof base !== "object" || override === null || typeof override !== "object") {
+    return override;
+  }
+  const kind = mergeKind(base);
+  if (kind === undefined || kind !== mergeKind(override)) {
+    return override;
+  }
+
+  switch (kind) {
+    case "object":
+      return mergeObject(base, override, s);
+    case "array":
+      return mergeArray(base as List, override as List, s);
+    case "map":
+      return s.maps === "merge"
+        ? mergeMap(base as ReadonlyMap<unknown, unknown>, override as ReadonlyMap<unknown, unknown>, s)
+        : replaceMap(base as ReadonlyMap<unknown, unknown>, override as ReadonlyMap<unknown, unknown>);
+    case "set":
+      return s.sets === "union"
+        ? unionSet(base as ReadonlySet<unknown>, override as ReadonlySet<unknown>)
+        : replaceSet(base as ReadonlySet<unknown>, override as ReadonlySet<unknown>);
+  }
+}
+
+function mergeObject(base: object, override: object, s: Strategies): object {
+  let copy: Record<PropertyKey, unknown> | undefined;
+  const keys = Reflect.ownKeys(override);
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i]!;
+    if (!Object.prototype.propertyIsEnumerable.call(override, key)) {
+      continue;
+    }
+    const exists = Object.prototype.hasOwnProperty.call(base, key);
+    const current = exists ? (base as Record<PropertyKey, unknown>)[key] : undefined;
+    const next = mergeValue(current, (override as Record<PropertyKey, unknown>)[key], s);
+    if (next === undefined || (exists && Object.is(next, current))) {
+      continue;
+    }
+    copy ??= shallowCopy(base, "object") as Record<PropertyKey, unknown>;
+    // defineProperty, so that an own "__proto__" key stays a plain property
+    Object.defineProperty(copy, key, {
+      value: next,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+  return copy ?? base;
+}
+
+function mergeArray(base: List, override: List, s: Strategies): List {
+  switch (s.arrays) {
+    case "replace":
+      return override.length === base.length && override.every((item, i) => Object.is(item, base[i]))
+        ? base
+        : override;
+    case "concat":
+      return override.length === 0 ? base : [...base, ...override];
+    case "byKey":
+      return mergeByKey(base, override, s);
+  }
+}
+
+function mergeByKey(base: List, override: List, s: Strategies): List {
+  let result: unknown[] | undefined;
+  const positions = new Map<unknown, number>();
+  for (let i = 0; i < base.length; i++) {
+    const key = s.keyOf(base[i]);
+    if (key !== undefined && !positions.has(key)) positions.set(key, i);
+  }
+
+  for (const item of override) {
+    const key = s.keyOf(item);
+    const position = key === undefined ? undefined : positions.get(key);
+    if (position === undefined) {
+      result ??= base.slice();
+      if (key !== undefined) positions.set(key, result.length);
+      result.push(item);
+      continue;
+    }
+    const current = (result ?? base)[position];
+    const next = mergeValue(current, item, s);
+    if (!Object.is(next, current)) {
+      (result ??= base.slice())[position] = next;
+    }
+  }
+  return result ?? base;
+}
+
+function mergeMap(
+  base: ReadonlyMap<unknown, unknown>,
+  override: ReadonlyMap<unknown, unknown>,
+  s: Strategies
+): ReadonlyMap<unknown, unknown> {
+  let copy: Map<unknown, unknown> | undefined;
+  for (const [key, value] of override) {
+    const exists = base.has(key);
+    const current = base.get(key);
+    const next = mergeValue(current, value, s);
+    if (exists && Object.is(next, current)) {
+      continue;
+    }
+    (copy ??= new Map(base)).set(key, next);
+  }
+  return copy ?? base;
+}
+
+function replaceMap(
+  base: ReadonlyMap<unknown, unknown>,
+  override: ReadonlyMap<unknown, unknown>
+): ReadonlyMap<unknown, unknown> {
+  if (override.size !== base.size) {
+    return override;
+  }
+  for (const [key, value] of override) {
+    if (!base.has(key) || !Object.is(base.get(key), value)) return override;
+  }
+  return base;
+}
+
+function unionSet(base: ReadonlySet<unknown>, override: ReadonlySet<unknown>): ReadonlySet<unknown> {
+  let copy: Set<unknown> | undefined;
+  for (const item of override) {
+    if (!base.has(item)) (copy ??= new Set(base)).add(item);
+  }
+  return copy ?? base;
+}
+
+function replaceSet(base: ReadonlySet<unknown>, override: ReadonlySet<unknown>): ReadonlySet<unknown> {
+  if (override.size !== base.size) {
+    return override;
+  }
+  for (const item of override) {
+    if (!base.has(item)) return override;
+  }
+  return base;
+}
+
+/** Strategies of `frozenMerge()` without options. */
+const DEFAULT_STRATEGIES = strategies({});
+
+/**
+ * Deeply merge overrides into a base value, in order, and freeze the
+ * result.
+ *
+ * Plain objects are merged property by property; `undefined` in an
+ * override leaves the base's value alone. Arrays, Maps and Sets follow the
+ * strategies in the options, and anything else in an override - class
+ * instances, Dates, primitives - replaces the base's value.
+ *
+ * Every subtree of the base no override changes is in the result by
+ * reference, and only new nodes are frozen, so merging into a frozen base
+ * costs the size of the overrides, not of the base. If nothing changes,
+ * the base itself is returned.
+ *
+ * @param base - Value to merge into (not changed; frozen if it isn't)
+ * @param args - Overrides, optionally followed by options from
+ *   `mergeOptions()`
+ * @returns Frozen merged value
+ *
+ * @example
+ * ```ts
+ * const config = frozenMerge(defaults, fromEnv, fromArgs);
+ * config.server === defaults.server; // true if no layer touched it
+ *
+ * const plugins = frozenMerge(base, extra, mergeOptions({ arrays: "byKey", arrayKey: "name" }));
+ * ```
+ */
+export function frozenMerge<T>(
+  base: T,
+  ...args: [...overrides: DeepPartial<T>[], options: BrandedMergeOptions] | DeepPartial<T>[]
+): EnsureFrozen<T> {
+  const last = args[args.length - 1];
+  const branded = last !== null && typeof last === "object" ? BRANDED.get(last) : undefined;
+  const overrides = branded === undefined ? args : args.slice(0, -1);
+  const s = branded ?? DEFAULT_STRATEGIES;
+  let result: unknown = base;
+  for (let i = 0; i < overrides.length; i++) {
+    result = mergeValue(result, overrides[i], s);
+  }
+  return freeze(result) as EnsureFrozen<T>;
+}
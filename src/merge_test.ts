@@ -0,0 +1,171 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { freeze } from "./freeze.ts";
+import { frozenMerge, mergeOptions } from "./merge.ts";
+import type { Frozen } from "./types.ts";
+import { isFrozen } from "./validation.ts";
+
+interface Config {
+  server: { host: string; port: number; tls: { enabled: boolean } };
+  log: { level: string; targets: string[] };
+  plugins: { name: string; options: { enabled: boolean; weight: number } }[];
+  limits: Map<string, { max: number }>;
+  features: Set<string>;
+  started?: Date;
+}
+
+function defaults(): Frozen<Config> {
+  return freeze({
+    server: { host: "localhost", port: 8080, tls: { enabled: false } },
+    log: { level: "info", targets: ["stdout"] },
+    plugins: [
+      { name: "auth", options: { enabled: true, weight: 1 } },
+      { name: "cache", options: { enabled: false, weight: 2 } },
+    ],
+    limits: new Map([["upload", { max: 10 }], ["api", { max: 100 }]]),
+    features: new Set(["a"]),
+  });
+}
+
+// =============================================================================
+// Objects
+// =============================================================================
+
+Deno.test("frozenMerge - merges nested objects and shares untouched subtrees", () => {
+  const base = defaults();
+  const merged = frozenMerge(base, { server: { port: 9090 } });
+
+  assertEquals(merged.server.port, 9090);
+  assertEquals(merged.server.host, "localhost");
+  assertEquals(merged.server.tls === base.server.tls, true);
+  assertEquals(merged.log === base.log, true);
+  assertEquals(merged.plugins === base.plugins, true);
+  assertEquals(base.server.port, 8080);
+  assertEquals(isFrozen(merged), true);
+});
+
+Deno.test("frozenMerge - applies overrides in order", () => {
+  const base = defaults();
+  const merged = frozenMerge(
+    base,
+    { server: { port: 1 }, log: { level: "debug" } },
+    { server: { port: 2, tls: { enabled: true } } }
+  );
+  assertEquals(merged.server.port, 2);
+  assertEquals(merged.server.tls.enabled, true);
+  assertEquals(merged.log.level, "debug");
+});
+
+Deno.test("frozenMerge - unchanged merge returns the base", () => {
+  const base = defaults();
+  assertEquals(frozenMerge(base) === base, true);
+  assertEquals(frozenMerge(base, { server: { port: 8080 } }) === base, true);
+  assertEquals(frozenMerge(base, { server: { host: undefined } }) === base, true);
+});
+
+Deno.test("frozenMerge - freezes values taken from overrides", () => {
+  const base = defaults();
+  const started = new Date(0);
+  const merged = frozenMerge(base, { started, server: { tls: { enabled: true } } });
+  assertEquals(merged.started === started, true);
+  assertEquals(Object.isFrozen(started), true);
+  assertEquals(merged.server.tls.enabled, true);
+  assertEquals(isFrozen(merged), true);
+});
+
+Deno.test("frozenMerge - does not change unfrozen overrides it copies", () => {
+  const base = defaults();
+  const first = { log: { level: "debug" } };
+  const merged = frozenMerge(base, first, { log: { level: "warn" } });
+  assertEquals(merged.log.level, "warn");
+  assertEquals(first.log.level, "debug");
+  assertEquals(Object.isFrozen(first.log), false);
+});
+
+Deno.test("frozenMerge - __proto__ in an override stays a plain property", () => {
+  const base = freeze({ settings: {} as Record<string, unknown> });
+  const merged = frozenMerge(base, JSON.parse('{"settings": {"__proto__": {"polluted": true}}}'));
+  assertEquals(Object.getPrototypeOf(merged.settings), Object.prototype);
+  assertEquals(({} as any).polluted, undefined);
+});
+
+// =============================================================================
+// Arrays
+// =============================================================================
+
+Deno.test("frozenMerge - arrays replace by default", () => {
+  const base = defaults();
+  const merged = frozenMerge(base, { log: { targets: ["file"] } });
+  assertEquals(merged.log.targets, ["file"]);
+  assertEquals(frozenMerge(base, { log: { targets: ["stdout"] } }) === base, true);
+});
+
+Deno.test("frozenMerge - concat appends", () => {
+  const base = defaults();
+  const merged = frozenMerge(base, { log: { targets: ["file"] } }, mergeOptions({ arrays: "concat" }));
+  assertEquals(merged.log.targets, ["stdout", "file"]);
+});
+
+Deno.test("frozenMerge - byKey merges matching items and appends the rest", () => {
+  const base = defaults();
+  const merged = frozenMerge(
+    base,
+    {
+      plugins: [
+        { name: "cache", options: { enabled: true, weight: 2 } },
+        { name: "metrics", options: { enabled: true, weight: 3 } },
+      ],
+    },
+    mergeOptions({ arrays: "byKey", arrayKey: "name" })
+  );
+
+  assertEquals(merged.plugins.map((p) => p.name), ["auth", "cache", "metrics"]);
+  assertEquals(merged.plugins[0] === base.plugins[0], true);
+  assertEquals(merged.plugins[1]!.options.enabled, true);
+  assertEquals(isFrozen(merged), true);
+});
+
+Deno.test("frozenMerge - byKey with a key function", () => {
+  const base = freeze({ items: [{ id: 1, n: 1 }, { id: 2, n: 2 }] });
+  const byId = mergeOptions({ arrays: "byKey", arrayKey: (item) => (item as { id: number }).id });
+  const merged = frozenMerge(base, { items: [{ id: 2, n: 20 }] }, byId);
+  assertEquals(merged.items, [{ id: 1, n: 1 }, { id: 2, n: 20 }]);
+  assertEquals(merged.items[0] === base.items[0], true);
+});
+
+// =============================================================================
+// Maps and Sets
+// =============================================================================
+
+Deno.test("frozenMerge - Maps merge entries by default", () => {
+  const base = defaults();
+  const merged = frozenMerge(base, { limits: new Map([["upload", { max: 50 }], ["ws", { max: 5 }]]) });
+  assertEquals([...merged.limits.keys()], ["upload", "api", "ws"]);
+  assertEquals(merged.limits.get("upload")!.max, 50);
+  assertEquals(merged.limits.get("api") === base.limits.get("api"), true);
+  assertEquals(isFrozen(merged), true);
+});
+
+Deno.test("frozenMerge - Maps can be replaced", () => {
+  const base = defaults();
+  const merged = frozenMerge(base, { limits: new Map([["ws", { max: 5 }]]) }, mergeOptions({ maps: "replace" }));
+  assertEquals([...merged.limits.keys()], ["ws"]);
+});
+
+Deno.test("frozenMerge - Sets replace by default, or union", () => {
+  const base = defaults();
+  assertEquals([...frozenMerge(base, { features: new Set(["b"]) }).features], ["b"]);
+  const union = mergeOptions({ sets: "union" });
+  assertEquals([...frozenMerge(base, { features: new Set(["b"]) }, union).features], ["a", "b"]);
+  assertEquals(frozenMerge(base, { features: new Set(["a"]) }, union) === base, true);
+});
+
+Deno.test("frozenMerge - an override shaped like options is merged like any other", () => {
+  const base = freeze({ arrays: "replace", sets: "replace", n: 1 });
+  assertEquals(frozenMerge(base, { sets: "union" }).sets, "union");
+  assertEquals(frozenMerge(base, { n: 2 }, { arrays: "concat" }).arrays, "concat");
+});
+
+Deno.test("mergeOptions - rejects unknown and invalid options", () => {
+  assertThrows(() => mergeOptions({ array: "concat" } as any), TypeError, "Unknown merge option array");
+  assertThrows(() => mergeOptions({ sets: "merge" } as any), TypeError, "Invalid merge option sets");
+});
@@ -0,0 +1,121 @@
+/**
+ * Object helpers shared by the modules that copy on write - `produce()`,
+ * the path updates and `frozenMerge()` - by the structural comparisons,
+ * and by error messages.
+ *
+ * @module
+ */
+
+import { isFacade } from "./lock.ts";
+import { getTypeHandler } from "./registry.ts";
+
+// =============================================================================
+// Type Names
+// =============================================================================
+
+/**
+ * Built-in type tag of an object: `"Object"`, `"Map"`, `"Uint8Array"`, ...
+ */
+export function typeName(obj: object): string {
+  return Object.prototype.toString.call(obj).slice(8, -1);
+}
+
+// =============================================================================
+// Boxed Primitives
+// =============================================================================
+
+/**
+ * Primitive held by a Number, String, Boolean, BigInt or Symbol object,
+ * read through the prototype's `valueOf`, which checks the internal slot -
+ * an own `valueOf` can't stand in for it. Undefined for other objects,
+ * including ones that only inherit from a wrapper's prototype.
+ */
+export function primitiveOf(obj: object): unknown {
+  try {
+    if (obj instanceof Number) return Number.prototype.valueOf.call(obj);
+    if (obj instanceof String) return String.prototype.valueOf.call(obj);
+    if (obj instanceof Boolean) return Boolean.prototype.valueOf.call(obj);
+    if (obj instanceof BigInt) return BigInt.prototype.valueOf.call(obj);
+    if (obj instanceof Symbol) return Symbol.prototype.valueOf.call(obj);
+  } catch {
+    // No internal slot to read
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * What an Error holds outside its enumerable properties: its `name` and
+ * `message`, whether it has a `cause` and what it is, and an
+ * AggregateError's `errors`. Compared and hashed alike.
+ */
+export function errorFields(error: Error): unknown[] {
+  const hasCause = Object.prototype.hasOwnProperty.call(error, "cause");
+  return [
+    error.name,
+    error.message,
+    hasCause,
+    hasCause ? error.cause : undefined,
+    error instanceof AggregateError ? error.errors : undefined,
+  ];
+}
+
+// =============================================================================
+// Shallow Copies
+// =============================================================================
+
+/**
+ * Kinds of value that can be copied shallowly, keeping what they are.
+ */
+export type CopyKind = "object" | "array" | "map" | "set" | "date";
+
+/**
+ * What kind of shallow copy a value can get, or undefined if it has to be
+ * replaced whole: facades, values of registered types, and subclasses,
+ * since the copy wouldn't be one.
+ */
+export function copyKind(value: object): CopyKind | undefined {
+  if (isFacade(value) || getTypeHandler(value) !== undefined) {
+    return undefined;
+  }
+  const proto = Object.getPrototypeOf(value);
+  if (proto === Object.prototype || proto === null) return "object";
+  if (proto === Array.prototype) return "array";
+  if (proto === Map.prototype) return "map";
+  if (proto === Set.prototype) return "set";
+  if (proto === Date.prototype) return "date";
+  return undefined;
+}
+
+/**
+ * Writable shallow copy. Frozen data properties become writable again;
+ * locked Maps, Sets and Dates are copied through their contents, which
+ * leaves the locks behind.
+ */
+export function shallowCopy(value: object, kind: CopyKind): object {
+  switch (kind) {
+    case "array":
+      return Array.prototype.slice.call(value);
+    case "map":
+      return new Map(value as Map<unknown, unknown>);
+    case "set":
+      return new Set(value as Set<unknown>);
+    case "date":
+      return new Date((value as Date).getTime());
+    case "object": {
+      const descriptors = Object.getOwnPropertyDescriptors(value) as Record<
+        PropertyKey,
+        PropertyDescriptor
+      >;
+      for (const key of Reflect.ownKeys(descriptors)) {
+        const descriptor = descriptors[key]!;
+        if ("value" in descriptor) descriptor.writable = true;
+        descriptor.configurable = true;
+      }
+      return Object.create(Object.getPrototypeOf(value), descriptors);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { assertEquals } from "jsr:@std/assert";
+import { freeze } from "./freeze.ts";
+import { copyKind, primitiveOf, shallowCopy, typeName } from "./objects.ts";
+
+Deno.test("typeName - names built-in types", () => {
+  assertEquals(typeName({}), "Object");
+  assertEquals(typeName(new Map()), "Map");
+  assertEquals(typeName(Object.create(null)), "Object");
+  assertEquals(typeName(new Uint8Array()), "Uint8Array");
+});
+
+Deno.test("primitiveOf - reads the internal slot, not an own valueOf", () => {
+  const n = Object.assign(new Number(1), { valueOf: () => 2 });
+  assertEquals(primitiveOf(n), 1);
+  assertEquals(primitiveOf(new String("a")), "a");
+  assertEquals(primitiveOf(new Boolean(false)), false);
+  assertEquals(primitiveOf(Object(1n)), 1n);
+  assertEquals(primitiveOf({ valueOf: () => 1 }), undefined);
+  assertEquals(primitiveOf(Object.create(Number.prototype)), undefined);
+});
+
+Deno.test("copyKind - plain values only, no subclasses", () => {
+  class Registry extends Map {}
+  assertEquals(copyKind(Object.create(null)), "object");
+  assertEquals(copyKind([]), "array");
+  assertEquals(copyKind(new Date()), "date");
+  assertEquals(copyKind(new Registry()), undefined);
+  assertEquals(copyKind(new (class Point {})()), undefined);
+});
+
+Deno.test("shallowCopy - writable copies of frozen values", () => {
+  const obj = freeze({ a: { b: 1 } });
+  const copy = shallowCopy(obj, "object") as { a: unknown };
+  copy.a = 2;
+  assertEquals(obj.a, { b: 1 });
+
+  const map = shallowCopy(freeze(new Map([["k", 1]])), "map") as Map<string, number>;
+  map.set("k", 2);
+  assertEquals(map.get("k"), 2);
+});
@@ -0,0 +1,163 @@
+/**
+ * Opaque containers: WeakMap, WeakSet, WeakRef and Promise.
+ *
+ * Their contents live in internal slots that can't be enumerated, so they
+ * can be neither frozen deeply nor copied. `Object.freeze` leaves
+ * `WeakMap.prototype.set` working, and a property-by-property copy yields
+ * an object without the internal slot that throws on every method call.
+ * An `OpaquePolicy` decides what `freeze`, `frozenCopy` and the validation
+ * utilities do with them instead.
+ *
+ * @module
+ */
+
+import { registerFacade } from "./lock.ts";
+import { typeName } from "./objects.ts";
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * How freezing, copying and validation treat opaque containers
+ * (WeakMap, WeakSet, WeakRef, Promise):
+ *
+ * - `"throw"`: `freeze` and `frozenCopy` throw a `FreezeError`, and
+ *   validation reports the container as not frozen.
+ * - `"reference"`: the container is passed through untouched - neither
+ *   frozen nor copied - and validation accepts it as is.
+ * - `"facade"`: the container is replaced by a read-only facade whose
+ *   mutating methods throw. The facade is a view: code holding the
+ *   original can still change it. Validation only accepts facades.
+ */
+export type OpaquePolicy = "throw" | "reference" | "facade";
+
+/** Opaque container types and the names of their mutating methods. */
+const MUTATORS: [abstract new (...args: never[]) => object, ReadonlySet<PropertyKey>][] = [
+  [WeakMap, new Set(["set", "delete"])],
+  [WeakSet, new Set(["add", "delete"])],
+  [Promise, new Set()],
+];
+if (typeof WeakRef !== "undefined") {
+  MUTATORS.push([WeakRef, new Set()]);
+}
+
+/**
+ * Check whether a value is a WeakMap, WeakSet, WeakRef or Promise (or a
+ * read-only facade over one).
+ */
+export function isOpaque(value: object): boolean {
+  return opaqueMutators(value) !== undefined;
+}
+
+/**
+ * Names of an opaque container's mutating methods, or undefined if the
+ * value isn't one.
+ */
+export function opaqueMutators(value: object): ReadonlySet<PropertyKey> | undefined {
+  for (let i = 0; i < MUTATORS.length; i++) {
+    const [ctor, mutators] = MUTATORS[i]!;
+    if (value instanceof ctor) {
+      return mutators;
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Facades
+// =============================================================================
+
+/** Container -> its facade, so every path to a container yields one facade. */
+const FACADES_BY_TARGET = new WeakMap<object, object>();
+
+/** Every opaque facade. */
+const OPAQUE_FACADES = new WeakSet<object>();
+
+function reject(name: string, action: string): never {
+  throw new TypeError(`Cannot ${action} a frozen ${name}`);
+}
+
+/**
+ * Wrap an opaque container in a read-only facade. Reading methods (`get`,
+ * `has`, `deref`, `then`, ...) work as usual; mutating methods and
+ * property writes throw a TypeError. Wrapping a facade returns it as is.
+ *
+ * @param value - Container to wrap
+ * @returns Facade over the container
+ * @throws TypeError if the value isn't an opaque container
+ *
+ * @example
+ * ```ts
+ * const cache = readonlyOpaque(new WeakMap([[key, 1]]));
+ * cache.get(key);     // 1
+ * cache.set(key, 2);  // TypeError
+ * ```
+ */
+export function readonlyOpaque<T extends object>(value: T): T {
+  if (OPAQUE_FACADES.has(value)) {
+    return value;
+  }
+  const existing = FACADES_BY_TARGET.get(value);
+  if (existing) {
+    return existing as T;
+  }
+  const mutators = opaqueMutators(value);
+  if (mutators === undefined) {
+    throw new TypeError(`Not an opaque container: ${Object.prototype.toString.call(value)}`);
+  }
+
+  const name = typeName(value);
+  const methods = new Map<PropertyKey, unknown>();
+
+  const facade = new Proxy(value, {
+    get(t, key) {
+      const cached = methods.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const property = Reflect.get(t, key, t);
+      if (typeof property !== "function") {
+        return property;
+      }
+
+      // Methods need the real container as `this` to reach its internal slot
+      const method = mutators.has(key)
+        ? () => reject(name, `call ${String(key)}() on`)
+        : (property as (...a: unknown[]) => unknown).bind(t);
+      methods.set(key, method);
+      return method;
+    },
+    set(_t, key) {
+      return reject(name, `assign to ${String(key)} of`);
+    },
+    defineProperty(_t, key) {
+      return reject(name, `define ${String(key)} on`);
+    },
+    deleteProperty(_t, key) {
+      return reject(name, `delete ${String(key)} from`);
+    },
+    setPrototypeOf() {
+      return reject(name, "change the prototype of");
+    },
+  });
+
+  FACADES_BY_TARGET.set(value, facade);
+  OPAQUE_FACADES.add(facade);
+  registerFacade(facade);
+  return facade;
+}
+
+/**
+ * Check whether a value is a read-only facade over an opaque container.
+ *
+ * @example
+ * ```ts
+ * const state = freeze({ cache: new WeakMap() }, { opaque: "facade" });
+ * isReadonlyOpaque(state.cache); // true
+ * ```
+ */
+export function isReadonlyOpaque(value: unknown): boolean {
+  return value !== null && typeof value === "object" && OPAQUE_FACADES.has(value);
+}
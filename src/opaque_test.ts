@@ -0,0 +1,66 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { isOpaque, isReadonlyOpaque, readonlyOpaque } from "./opaque.ts";
+
+// =============================================================================
+// isOpaque
+// =============================================================================
+
+Deno.test("isOpaque - detects WeakMap, WeakSet, WeakRef and Promise", () => {
+  assertEquals(isOpaque(new WeakMap()), true);
+  assertEquals(isOpaque(new WeakSet()), true);
+  assertEquals(isOpaque(new WeakRef({})), true);
+  assertEquals(isOpaque(Promise.resolve(1)), true);
+});
+
+Deno.test("isOpaque - false for Maps and plain objects", () => {
+  assertEquals(isOpaque(new Map()), false);
+  assertEquals(isOpaque({ then() {} }), false);
+});
+
+// =============================================================================
+// readonlyOpaque
+// =============================================================================
+
+Deno.test("readonlyOpaque - WeakMap reads work, writes throw", () => {
+  const key = {};
+  const cache = readonlyOpaque(new WeakMap([[key, 1]]));
+  assertEquals(cache.get(key), 1);
+  assertEquals(cache.has(key), true);
+  assertThrows(() => cache.set(key, 2), TypeError, "Cannot call set() on a frozen WeakMap");
+  assertThrows(() => cache.delete(key), TypeError);
+  assertEquals(cache instanceof WeakMap, true);
+});
+
+Deno.test("readonlyOpaque - WeakSet rejects add and delete", () => {
+  const member = {};
+  const seen = readonlyOpaque(new WeakSet([member]));
+  assertEquals(seen.has(member), true);
+  assertThrows(() => seen.add({}), TypeError);
+  assertThrows(() => seen.delete(member), TypeError);
+});
+
+Deno.test("readonlyOpaque - WeakRef and Promise keep working", async () => {
+  const target = { n: 1 };
+  assertEquals(readonlyOpaque(new WeakRef(target)).deref(), target);
+  assertEquals(await readonlyOpaque(Promise.resolve(42)), 42);
+});
+
+Deno.test("readonlyOpaque - rejects property writes", () => {
+  const cache = readonlyOpaque(new WeakMap());
+  assertThrows(() => {
+    (cache as any).extra = 1;
+  }, TypeError);
+});
+
+Deno.test("readonlyOpaque - one facade per container", () => {
+  const map = new WeakMap();
+  const facade = readonlyOpaque(map);
+  assertEquals(readonlyOpaque(map), facade);
+  assertEquals(readonlyOpaque(facade), facade);
+  assertEquals(isReadonlyOpaque(facade), true);
+  assertEquals(isReadonlyOpaque(map), false);
+});
+
+Deno.test("readonlyOpaque - throws for other values", () => {
+  assertThrows(() => readonlyOpaque(new Map()), TypeError, "Not an opaque container");
+});
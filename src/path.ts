@@ -0,0 +1,65 @@
+/**
+ * Path formatting shared by traversal callbacks and debug utilities.
+ *
+ * Paths are display strings, not selectors: `a.b[0].get(key).values()[2]`.
+ * The root is the empty string.
+ *
+ * @module
+ */
+
+/**
+ * Path to a named or symbol-keyed property.
+ */
+export function propertyPath(path: string, key: string | symbol): string {
+  if (typeof key === "symbol") {
+    return `${path}[${String(key)}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Path to an array element.
+ */
+export function indexPath(path: string, index: number): string {
+  return `${path}[${index}]`;
+}
+
+/**
+ * Path to the nth key of a Map.
+ */
+export function mapKeyPath(path: string, index: number): string {
+  return path ? `${path}.keys()[${index}]` : `keys()[${index}]`;
+}
+
+/**
+ * Path to the value stored under a Map key.
+ */
+export function mapValuePath(path: string, key: unknown): string {
+  return path ? `${path}.get(${keyText(key)})` : `get(${keyText(key)})`;
+}
+
+/**
+ * Display form of a key: primitives as themselves, objects and functions
+ * by their kind alone. Converting an object to a string runs its code, and
+ * throws for one without a prototype.
+ */
+export function keyText(key: unknown): string {
+  if (typeof key === "function") {
+    return "<function>";
+  }
+  return key !== null && typeof key === "object" ? "<object>" : String(key);
+}
+
+/**
+ * Path to the nth member of a Set.
+ */
+export function setItemPath(path: string, index: number): string {
+  return path ? `${path}.values()[${index}]` : `values()[${index}]`;
+}
+
+/**
+ * Path to the nth child reported by a registered type handler.
+ */
+export function childPath(path: string, index: number): string {
+  return path ? `${path}.children()[${index}]` : `children()[${index}]`;
+}
@@ -0,0 +1,36 @@
+import { assertEquals } from "jsr:@std/assert";
+import { indexPath, keyText, mapKeyPath, mapValuePath, propertyPath, setItemPath } from "./path.ts";
+
+Deno.test("propertyPath - joins names with dots", () => {
+  assertEquals(propertyPath("", "a"), "a");
+  assertEquals(propertyPath("a", "b"), "a.b");
+});
+
+Deno.test("propertyPath - brackets symbol keys", () => {
+  assertEquals(propertyPath("a", Symbol("meta")), "a[Symbol(meta)]");
+});
+
+Deno.test("indexPath - brackets array indices", () => {
+  assertEquals(indexPath("", 0), "[0]");
+  assertEquals(indexPath("items", 2), "items[2]");
+});
+
+Deno.test("mapKeyPath/mapValuePath/setItemPath - describe collection members", () => {
+  assertEquals(mapKeyPath("m", 1), "m.keys()[1]");
+  assertEquals(mapValuePath("m", "k"), "m.get(k)");
+  assertEquals(mapValuePath("", "k"), "get(k)");
+  assertEquals(setItemPath("s", 0), "s.values()[0]");
+});
+
+Deno.test("mapValuePath - names object keys by kind without converting them", () => {
+  const broken = {
+    toString() {
+      throw new Error("no");
+    },
+  };
+  assertEquals(mapValuePath("m", Object.create(null)), "m.get(<object>)");
+  assertEquals(mapValuePath("m", broken), "m.get(<object>)");
+  assertEquals(mapValuePath("m", () => 1), "m.get(<function>)");
+  assertEquals(keyText(Symbol("k")), "Symbol(k)");
+  assertEquals(keyText(null), "null");
+});
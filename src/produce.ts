@@ -0,0 +1,552 @@
+/**
+ * Copy-on-write updates of frozen values.
+ *
+ * `produce(base, recipe)` hands the recipe a draft of `base`: a Proxy that
+ * reads through to `base` and records changes in a shallow copy, made the
+ * first time the object (or something below it) changes. Nested objects
+ * are drafted as they are read, so only the path to a change is copied.
+ * The result is frozen, and every subtree the recipe left alone is the one
+ * from `base`, by reference.
+ *
+ * Plain objects, arrays, Maps, Sets and Dates are drafted. Anything else -
+ * class instances, binary data, URLs, values of registered types - is read
+ * as it is and has to be replaced to change.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import { isFacade } from "./lock.ts";
+import { copyKind, shallowCopy, typeName } from "./objects.ts";
+import type { CopyKind } from "./objects.ts";
+import type { Draft, EnsureFrozen } from "./types.ts";
+
+// =============================================================================
+// Draft State
+// =============================================================================
+
+type Method = (...args: never[]) => unknown;
+
+/**
+ * Drafts created by one `produce()` call, revoked when it returns.
+ */
+interface Scope {
+  readonly revokes: (() => void)[];
+}
+
+interface DraftState {
+  readonly kind: CopyKind;
+
+  /** The value being drafted. */
+  readonly base: object;
+
+  /**
+   * Shallow copy of `base` with the draft's current contents. Made on the
+   * first change, or when a child draft is stored in place of a child.
+   */
+  copy: object | undefined;
+
+  /** State of the draft holding this one. */
+  readonly parent: DraftState | undefined;
+
+  readonly scope: Scope;
+
+  /** The Proxy. */
+  draft: object;
+
+  /** Set once this draft or one below it has changed. */
+  modified: boolean;
+
+  /** Set when finalized, so a draft reachable twice is finalized once. */
+  finalized: boolean;
+}
+
+/** Draft -> its state. */
+const STATES = new WeakMap<object, DraftState>();
+
+const BUILTIN_PROTOTYPES = {
+  map: Map.prototype,
+  set: Set.prototype,
+  date: Date.prototype,
+} as const;
+
+/**
+ * What kind of draft a value gets, or undefined if it is read as it is.
+ */
+function draftKind(value: unknown): CopyKind | undefined {
+  if (value === null || typeof value !== "object" || STATES.has(value)) {
+    return undefined;
+  }
+  return copyKind(value);
+}
+
+function latest(state: DraftState): object {
+  return state.copy ?? state.base;
+}
+
+function prepareCopy(state: DraftState): object {
+  return (state.copy ??= shallowCopy(state.base, state.kind));
+}
+
+/**
+ * Mark a draft and the drafts holding it as changed. Their copies already
+ * exist, since each one holds the child draft below it.
+ */
+function markChanged(state: DraftState | undefined): void {
+  while (state !== undefined && !state.modified) {
+    state.modified = true;
+    prepareCopy(state);
+    state = state.parent;
+  }
+}
+
+function createDraft(
+  base: object,
+  kind: CopyKind,
+  parent: DraftState | undefined,
+  scope: Scope
+): object {
+  const state: DraftState = {
+    kind,
+    base,
+    copy: undefined,
+    parent,
+    scope,
+    draft: base,
+    modified: false,
+    finalized: false,
+  };
+  // Like read-only views, drafts wrap an empty stand-in, so frozen
+  // properties of the base can be read as drafts
+  const shadow: object = kind === "array" ? [] : {};
+  const handler = kind === "object" || kind === "array" ? propertyTraps(state) : methodTraps(state);
+  const { proxy, revoke } = Proxy.revocable(shadow, handler);
+  state.draft = proxy;
+  STATES.set(proxy, state);
+  scope.revokes.push(revoke);
+  return proxy;
+}
+
+/**
+ * Draft a child read from a draft, if it is still the base's child. New
+ * values the recipe stored are its own and stay as they are.
+ */
+function draftChild(state: DraftState, value: unknown, baseValue: unknown): unknown {
+  const kind = draftKind(value);
+  if (kind === undefined || value !== baseValue) {
+    return value;
+  }
+  return createDraft(value as object, kind, state, state.scope);
+}
+
+function rejectDraft(state: DraftState, action: string): never {
+  throw new TypeError(`Cannot ${action} a ${typeName(state.base)} draft`);
+}
+
+// =============================================================================
+// Objects and Arrays
+// =============================================================================
+
+function readProperty(state: DraftState, key: PropertyKey): unknown {
+  const source = latest(state);
+  const descriptor = Reflect.getOwnPropertyDescriptor(source, key);
+  if (descriptor === undefined || !("value" in descriptor)) {
+    return Reflect.get(source, key, state.draft);
+  }
+
+  const value: unknown = descriptor.value;
+  const child = draftChild(state, value, (state.base as Record<PropertyKey, unknown>)[key]);
+  if (child !== value) {
+    // Stored in the copy, so the next read finds the same draft
+    (prepareCopy(state) as Record<PropertyKey, unknown>)[key] = child;
+  }
+  return child;
+}
+
+function propertyTraps(state: DraftState): ProxyHandler<object> {
+  return {
+    get(_s, key) {
+      return readProperty(state, key);
+    },
+    has(_s, key) {
+      return Reflect.has(latest(state), key);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(latest(state));
+    },
+    getOwnPropertyDescriptor(s, key) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(latest(state), key);
+      if (descriptor === undefined) {
+        return undefined;
+      }
+      // A draft array's length stays non-configurable, like its stand-in's
+      if (key === "length" && Array.isArray(s)) {
+        return { ...descriptor, writable: true };
+      }
+      if ("value" in descriptor) descriptor.writable = true;
+      descriptor.configurable = true;
+      return descriptor;
+    },
+    getPrototypeOf() {
+      return Reflect.getPrototypeOf(state.base);
+    },
+    set(_s, key, value) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(latest(state), key);
+      if (descriptor !== undefined && "value" in descriptor) {
+        const current: unknown = descriptor.value;
+        if (Object.is(current, value)) {
+          return true;
+        }
+        // Putting back the base value over an unchanged child draft
+        const child = current !== null && typeof current === "object" ? STATES.get(current) : undefined;
+        if (child !== undefined && !child.modified && child.base === value) {
+          return true;
+        }
+      }
+      const copy = prepareCopy(state);
+      markChanged(state);
+      return Reflect.set(copy, key, value, copy);
+    },
+    deleteProperty(_s, key) {
+      if (Reflect.getOwnPropertyDescriptor(latest(state), key) === undefined) {
+        return true;
+      }
+      markChanged(state);
+      return Reflect.deleteProperty(state.copy!, key);
+    },
+    defineProperty(_s, key, descriptor) {
+      markChanged(state);
+      return Reflect.defineProperty(state.copy!, key, descriptor);
+    },
+    setPrototypeOf() {
+      return rejectDraft(state, "change the prototype of");
+    },
+    preventExtensions() {
+      return rejectDraft(state, "freeze or seal");
+    },
+  };
+}
+
+// =============================================================================
+// Maps, Sets and Dates
+// =============================================================================
+
+function readMapValue(state: DraftState, key: unknown): unknown {
+  const value = (latest(state) as Map<unknown, unknown>).get(key);
+  const child = draftChild(state, value, (state.base as Map<unknown, unknown>).get(key));
+  if (child !== value) {
+    (prepareCopy(state) as Map<unknown, unknown>).set(key, child);
+  }
+  return child;
+}
+
+/**
+ * Stand-in for a Map method. Values are drafted as they are read; keys
+ * are not.
+ */
+function mapMethod(state: DraftState, key: PropertyKey): Method | undefined {
+  const map = (): Map<unknown, unknown> => latest(state) as Map<unknown, unknown>;
+  const copy = (): Map<unknown, unknown> => prepareCopy(state) as Map<unknown, unknown>;
+  const keys = (): unknown[] => [...map().keys()];
+
+  switch (key) {
+    case "get":
+      return (k: unknown) => readMapValue(state, k);
+    case "has":
+      return (k: unknown) => map().has(k);
+    case "set":
+      return (k: unknown, v: unknown) => {
+        if (!map().has(k) || !Object.is(map().get(k), v)) {
+          copy().set(k, v);
+          markChanged(state);
+        }
+        return state.draft;
+      };
+    case "delete":
+      return (k: unknown) => {
+        if (!map().has(k)) return false;
+        markChanged(state);
+        return copy().delete(k);
+      };
+    case "clear":
+      return () => {
+        if (map().size === 0) return;
+        markChanged(state);
+        copy().clear();
+      };
+    case "forEach":
+      return (callback: (value: unknown, key: unknown, map: object) => void, thisArg?: unknown) => {
+        for (const k of keys()) callback.call(thisArg, readMapValue(state, k), k, state.draft);
+      };
+    case "keys":
+      return () => map().keys();
+    case "values":
+      return function* (): Generator<unknown> {
+        for (const k of keys()) yield readMapValue(state, k);
+      };
+    case "entries":
+    case Symbol.iterator:
+      return function* (): Generator<[unknown, unknown]> {
+        for (const k of keys()) yield [k, readMapValue(state, k)];
+      };
+  }
+  return undefined;
+}
+
+/**
+ * Stand-in for a Set method. Members are not drafted: to change one,
+ * delete it and add its replacement.
+ */
+function setMethod(state: DraftState, key: PropertyKey): Method | undefined {
+  const set = (): Set<unknown> => latest(state) as Set<unknown>;
+  const copy = (): Set<unknown> => prepareCopy(state) as Set<unknown>;
+
+  switch (key) {
+    case "add":
+      return (v: unknown) => {
+        if (!set().has(v)) {
+          copy().add(v);
+          markChanged(state);
+        }
+        return state.draft;
+      };
+    case "delete":
+      return (v: unknown) => {
+        if (!set().has(v)) return false;
+        markChanged(state);
+        return copy().delete(v);
+      };
+    case "clear":
+      return () => {
+        if (set().size === 0) return;
+        markChanged(state);
+        copy().clear();
+      };
+    case "forEach":
+      return (callback: (value: unknown, key: unknown, set: object) => void, thisArg?: unknown) => {
+        for (const v of [...set()]) callback.call(thisArg, v, v, state.draft);
+      };
+  }
+  return undefined;
+}
+
+/**
+ * Stand-in for a Date setter: the time changes on the copy.
+ */
+function dateMethod(state: DraftState, key: PropertyKey): Method | undefined {
+  if (typeof key !== "string" || !key.startsWith("set")) {
+    return undefined;
+  }
+  const setter = Reflect.get(Date.prototype, key) as (...args: unknown[]) => number;
+  return (...args: unknown[]) => {
+    const copy = prepareCopy(state) as Date;
+    const before = copy.getTime();
+    const result = setter.apply(copy, args);
+    if (!Object.is(copy.getTime(), before)) {
+      markChanged(state);
+    }
+    return result;
+  };
+}
+
+function methodTraps(state: DraftState): ProxyHandler<object> {
+  const kind = state.kind as keyof typeof BUILTIN_PROTOTYPES;
+  const prototype = BUILTIN_PROTOTYPES[kind];
+  const methods = new Map<PropertyKey, unknown>();
+
+  return {
+    get(_s, key) {
+      if (key === "size" && kind !== "date") {
+        return (latest(state) as Map<unknown, unknown> | Set<unknown>).size;
+      }
+      const cached = methods.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      // Methods come from the prototype: a frozen base shadows its
+      // mutators with throwing locks
+      const member = Reflect.get(prototype, key);
+      if (typeof member !== "function") {
+        return member;
+      }
+      const draftMethod = kind === "map" ? mapMethod : kind === "set" ? setMethod : dateMethod;
+      // Everything else only reads
+      const method =
+        draftMethod(state, key) ?? ((...args: unknown[]) => member.apply(latest(state), args));
+      methods.set(key, method);
+      return method;
+    },
+    has(_s, key) {
+      return Reflect.has(latest(state), key);
+    },
+    getPrototypeOf() {
+      return prototype;
+    },
+    set(_s, key) {
+      return rejectDraft(state, `assign to ${String(key)} of`);
+    },
+    defineProperty(_s, key) {
+      return rejectDraft(state, `define ${String(key)} on`);
+    },
+    deleteProperty(_s, key) {
+      return rejectDraft(state, `delete ${String(key)} from`);
+    },
+    setPrototypeOf() {
+      return rejectDraft(state, "change the prototype of");
+    },
+    preventExtensions() {
+      return rejectDraft(state, "freeze or seal");
+    },
+  };
+}
+
+// =============================================================================
+// Finalizing
+// =============================================================================
+
+/**
+ * Replace drafts by their outcome: the base if nothing below it changed,
+ * otherwise the copy with its own children finalized. New values the
+ * recipe stored may hold drafts too, and are searched for them.
+ */
+function finalize(value: unknown, seen: WeakSet<object>): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const state = STATES.get(value);
+  if (state !== undefined) {
+    if (!state.modified) {
+      return state.base;
+    }
+    if (!state.finalized) {
+      state.finalized = true;
+      finalizeContents(state.copy!, seen);
+    }
+    return state.copy;
+  }
+
+  // Frozen values and facades can't have had a draft stored in them
+  if (Object.isFrozen(value) || isFacade(value) || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+  finalizeContents(value, seen);
+  return value;
+}
+
+function finalizeContents(obj: object, seen: WeakSet<object>): void {
+  if (obj instanceof Map || obj instanceof Set) {
+    const isMap = obj instanceof Map;
+    const entries: [unknown, unknown][] = [];
+    let changed = false;
+    for (const [key, value] of obj.entries()) {
+      const finalKey = finalize(key, seen);
+      const finalValue = isMap ? finalize(value, seen) : finalKey;
+      changed ||= finalKey !== key || finalValue !== value;
+      entries.push([finalKey, finalValue]);
+    }
+    if (changed) {
+      // Re-insert everything so entries keep their order
+      obj.clear();
+      for (const [key, value] of entries) {
+        if (isMap) obj.set(key, value);
+        else obj.add(key);
+      }
+    }
+    return;
+  }
+  if (obj instanceof Date) {
+    return;
+  }
+
+  const keys = Reflect.ownKeys(obj);
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i]!;
+    const descriptor = Reflect.getOwnPropertyDescriptor(obj, key)!;
+    if (!("value" in descriptor)) continue;
+    const finalValue = finalize(descriptor.value, seen);
+    if (finalValue !== descriptor.value) {
+      (obj as Record<PropertyKey, unknown>)[key] = finalValue;
+    }
+  }
+}
+
+// =============================================================================
+// produce()
+// =============================================================================
+
+/**
+ * Derive a new frozen value from `base` by changing a draft of it.
+ *
+ * The recipe changes the draft as if it were a mutable copy: assign and
+ * delete properties, `push` and `splice` arrays, `set` and `delete` Map
+ * entries, `add` to Sets, call Date setters. `base` is not touched. The
+ * result shares every subtree the recipe didn't change with `base`, and
+ * is `base` itself if nothing changed. Only the new objects are frozen;
+ * a `base` that isn't frozen yet is frozen along with them.
+ *
+ * The recipe may also return a replacement value (which may contain
+ * parts of the draft) instead of changing the draft. Drafts can't be used
+ * after `produce()` returns.
+ *
+ * @param base - Value to start from: a plain object, array, Map, Set or Date
+ * @param recipe - Changes the draft, or returns a replacement
+ * @returns The new value, frozen
+ * @throws TypeError if `base` can't be drafted, or the recipe both changed
+ *   the draft and returned a replacement
+ *
+ * @example
+ * ```ts
+ * const next = produce(state, (draft) => {
+ *   draft.users[0].name = "Bob";
+ *   draft.tags.add("edited");
+ * });
+ *
+ * next.users[1] === state.users[1]; // true - untouched subtrees are shared
+ * ```
+ */
+export function produce<T>(
+  base: T,
+  recipe: (draft: Draft<T>) => Draft<T> | T | void
+): EnsureFrozen<T> {
+  const kind = draftKind(base);
+  if (kind === undefined) {
+    const name =
+      base !== null && typeof base === "object"
+        ? ((base as object).constructor?.name ?? typeName(base))
+        : typeof base;
+    throw new TypeError(
+      `Cannot draft ${name}: produce() takes a plain object, array, Map, Set or Date`
+    );
+  }
+
+  const scope: Scope = { revokes: [] };
+  try {
+    const draft = createDraft(base as object, kind, undefined, scope);
+    const returned = recipe(draft as Draft<T>);
+
+    let result: unknown;
+    if (returned === undefined || returned === draft) {
+      result = finalize(draft, new WeakSet());
+    } else {
+      if (STATES.get(draft)!.modified) {
+        throw new TypeError(
+          "A produce() recipe must either change its draft or return a new value, not both"
+        );
+      }
+      result = finalize(returned, new WeakSet());
+    }
+    return freeze(result) as EnsureFrozen<T>;
+  } finally {
+    for (const revoke of scope.revokes) revoke();
+  }
+}
+
+/**
+ * Check whether a value is a draft handed out by `produce()`.
+ */
+export function isDraft(value: unknown): boolean {
+  return value !== null && typeof value === "object" && STATES.has(value);
+}
@@ -0,0 +1,197 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { makeState } from "./fixtures_test.ts";
+import { freeze } from "./freeze.ts";
+import { isDraft, produce } from "./produce.ts";
+import { isFrozen } from "./validation.ts";
+
+// =============================================================================
+// Objects and arrays
+// =============================================================================
+
+Deno.test("produce - returns a new frozen value, base untouched", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.users[0]!.name = "Bob";
+  });
+  assertEquals(next.users[0]!.name, "Bob");
+  assertEquals(state.users[0]!.name, "Ada");
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("produce - shares untouched subtrees by reference", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.users[0]!.age++;
+  });
+  assertEquals(next === state, false);
+  assertEquals(next.users === state.users, false);
+  assertEquals(next.users[1] === state.users[1], true);
+  assertEquals(next.settings === state.settings, true);
+  assertEquals(next.scores === state.scores, true);
+});
+
+Deno.test("produce - returns the base when nothing changes", () => {
+  const state = makeState();
+  assertEquals(produce(state, () => {}), state);
+  assertEquals(
+    produce(state, (draft) => {
+      draft.settings.theme = "dark";
+      void draft.users[0]!.name;
+    }),
+    state
+  );
+});
+
+Deno.test("produce - array methods work on drafts", () => {
+  const base = freeze({ list: [3, 1, 2] });
+  const next = produce(base, (draft) => {
+    draft.list.push(4);
+    draft.list.sort();
+    draft.list.splice(0, 1);
+  });
+  assertEquals(next.list, [2, 3, 4]);
+  assertEquals(base.list, [3, 1, 2]);
+});
+
+Deno.test("produce - deletes and adds properties", () => {
+  const base = freeze<{ a?: number; b?: { c: number } }>({ a: 1 });
+  const next = produce(base, (draft) => {
+    delete draft.a;
+    draft.b = { c: 2 };
+  });
+  assertEquals(next, { b: { c: 2 } });
+  assertEquals(Object.isFrozen(next.b), true);
+});
+
+Deno.test("produce - moving drafts into new objects", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.settings = { theme: "light", fontSize: 14, flags: draft.settings.flags };
+    draft.users = [draft.users[1]!];
+  });
+  assertEquals(next.settings.flags === state.settings.flags, true);
+  assertEquals(next.users[0] === state.users[1], true);
+  assertEquals(isDraft(next.users[0]), false);
+});
+
+Deno.test("produce - the recipe may return a replacement", () => {
+  const base = freeze({ items: [{ id: 1 }, { id: 2 }] });
+  const next = produce(base, (draft) => ({ items: draft.items.filter((item) => item.id !== 1) }));
+  assertEquals(next, { items: [{ id: 2 }] });
+  assertEquals(next.items[0] === base.items[1], true);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("produce - rejects changing the draft and returning a value", () => {
+  assertThrows(
+    () =>
+      produce(freeze({ a: 1 }), (draft) => {
+        draft.a = 2;
+        return { a: 3 };
+      }),
+    TypeError,
+    "not both"
+  );
+});
+
+Deno.test("produce - drafts are revoked afterwards", () => {
+  let leaked: any;
+  produce(freeze({ a: { b: 1 } }), (draft) => {
+    leaked = draft.a;
+  });
+  assertEquals(isDraft(leaked), true);
+  assertThrows(() => leaked.b, TypeError);
+});
+
+Deno.test("produce - rejects values that can't be drafted", () => {
+  class Point {
+    x = 1;
+  }
+  assertThrows(() => produce(new Point(), () => {}), TypeError, "Cannot draft Point");
+  assertThrows(() => produce(1 as any, () => {}), TypeError);
+});
+
+Deno.test("produce - class instances are read as they are", () => {
+  class Point {
+    constructor(public x: number) {}
+  }
+  const base = freeze({ point: new Point(1) });
+  const next = produce(base, (draft) => {
+    assertEquals(isDraft(draft.point), false);
+    draft.point = new Point(2);
+  });
+  assertEquals(next.point.x, 2);
+  assertEquals(base.point.x, 1);
+});
+
+// =============================================================================
+// Maps, Sets and Dates
+// =============================================================================
+
+Deno.test("produce - Map drafts", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.scores.get("ada")!.best = 12;
+    draft.scores.set("grace", { best: 3 });
+    draft.scores.delete("alan");
+  });
+  assertEquals([...next.scores.keys()], ["ada", "grace"]);
+  assertEquals(next.scores.get("ada")!.best, 12);
+  assertEquals(state.scores.get("ada")!.best, 10);
+  assertEquals(state.scores.size, 2);
+  assertEquals(isFrozen(next.scores), true);
+});
+
+Deno.test("produce - Map iteration yields drafts", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    for (const [, score] of draft.scores) score.best *= 2;
+  });
+  assertEquals(next.scores.get("alan")!.best, 14);
+  assertEquals(next.scores.size, 2);
+});
+
+Deno.test("produce - Set drafts", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.tags.add("b");
+    draft.tags.delete("a");
+    assertEquals(draft.tags.has("b"), true);
+    assertEquals(draft.tags.size, 1);
+  });
+  assertEquals([...next.tags], ["b"]);
+  assertEquals([...state.tags], ["a"]);
+  assertThrows(() => (next.tags as any).add("c"), TypeError);
+});
+
+Deno.test("produce - Date drafts", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.updated.setTime(1000);
+    assertEquals(draft.updated.getTime(), 1000);
+  });
+  assertEquals(next.updated.getTime(), 1000);
+  assertEquals(state.updated.getTime(), 0);
+  assertEquals(next.updated instanceof Date, true);
+  assertThrows(() => (next.updated as any).setTime(5), TypeError);
+});
+
+Deno.test("produce - unchanged Maps and Sets keep their identity", () => {
+  const state = makeState();
+  const next = produce(state, (draft) => {
+    draft.tags.add("a");
+    draft.scores.set("ada", draft.scores.get("ada")!);
+    draft.settings.theme = "light";
+  });
+  assertEquals(next.tags === state.tags, true);
+  assertEquals(next.scores === state.scores, true);
+});
+
+Deno.test("produce - draft types follow the base", () => {
+  const state = makeState();
+  produce(state, (draft) => {
+    draft.users.push({ name: "Grace", age: 45 });
+    // @ts-expect-error - drafts keep the base's shape
+    draft.users[0]!.name = 1;
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Type handlers for classes the generic traversal gets wrong.
+ *
+ * `freeze`, `frozenCopy` and the validation utilities know Arrays, Maps,
+ * Sets, Dates and RegExps, and treat everything else as a bag of own
+ * properties. A class that keeps its contents somewhere else - private
+ * fields, a closure, an internal Map - can register a handler that tells
+ * all three how to reach, freeze, copy and check its instances.
+ *
+ * Handlers are looked up along the prototype chain, so a handler for a
+ * base class covers its subclasses, and a handler registered for a
+ * built-in (or a subclass of one) takes precedence over the built-in
+ * treatment.
+ *
+ * @module
+ */
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * How the library treats instances of a registered type. Every hook is
+ * optional; a missing hook falls back to what the library does for
+ * unregistered objects.
+ */
+export interface TypeHandler<T extends object = object> {
+  /**
+   * Values held by an instance. They are frozen, copied along and checked
+   * in place of its own properties. Binary data and `[FREEZE]()` results
+   * can't be written back into the instance, so `children` should not
+   * yield values that `freeze()` would replace.
+   */
+  children?(value: T): Iterable<unknown>;
+
+  /**
+   * Make an instance immutable once its children are frozen, e.g. by
+   * locking its mutating methods. `Object.freeze` is applied afterwards
+   * either way.
+   */
+  freeze?(value: T): void;
+
+  /**
+   * Create a mutable deep copy. Copy children with `clone`, which keeps
+   * cycles and shared references intact.
+   */
+  clone?(value: T, clone: <U>(child: U) => U): T;
+
+  /**
+   * Shallow check that an instance is immutable. Children are checked
+   * separately. Defaults to `Object.isFrozen` (plus the Map/Set/Date lock).
+   */
+  isFrozen?(value: T): boolean;
+}
+
+/** Constructor of a registrable type. */
+export type TypeConstructor<T extends object = object> = abstract new (...args: never[]) => T;
+
+/** Prototype -> handler for instances inheriting from it. */
+const HANDLERS = new Map<object, TypeHandler>();
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Register how `freeze`, `frozenCopy` and the validation utilities treat
+ * instances of a class. Registering a class again replaces its handler.
+ *
+ * @param ctor - Class whose instances (and subclass instances) the handler covers
+ * @param handler - Hooks for traversal, freezing, copying and validation
+ *
+ * @example
+ * ```ts
+ * registerType(OrderedMap, {
+ *   children: (map) => map.entries().flat(),
+ *   freeze: (map) => map.lock(),
+ *   clone: (map, clone) => new OrderedMap(clone(map.entries())),
+ *   isFrozen: (map) => map.isLocked(),
+ * });
+ * ```
+ */
+export function registerType<T extends object>(
+  ctor: TypeConstructor<T>,
+  handler: TypeHandler<T>
+): void {
+  HANDLERS.set(ctor.prototype, handler as TypeHandler);
+}
+
+/**
+ * Remove a handler registered with `registerType`.
+ *
+ * @param ctor - Class to unregister
+ * @returns True if a handler was registered
+ */
+export function unregisterType(ctor: TypeConstructor): boolean {
+  return HANDLERS.delete(ctor.prototype);
+}
+
+/**
+ * Find the handler for a value, walking its prototype chain.
+ */
+export function getTypeHandler(obj: object): TypeHandler | undefined {
+  if (HANDLERS.size === 0) {
+    return undefined;
+  }
+  let proto = Object.getPrototypeOf(obj);
+  while (proto !== null) {
+    const handler = HANDLERS.get(proto);
+    if (handler !== undefined) {
+      return handler;
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return undefined;
+}
@@ -0,0 +1,116 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { getTypeHandler, registerType, unregisterType } from "./registry.ts";
+import { freeze } from "./freeze.ts";
+import { frozenCopy } from "./copy.ts";
+import { findUnfrozenPath, isFrozen } from "./validation.ts";
+
+/** Keeps its entries in a private field the generic traversal can't see. */
+class OrderedMap<V> {
+  #keys: string[] = [];
+  #values: V[] = [];
+  #locked = false;
+
+  set(key: string, value: V): this {
+    if (this.#locked) throw new TypeError("locked");
+    this.#keys.push(key);
+    this.#values.push(value);
+    return this;
+  }
+
+  values(): V[] {
+    return this.#values;
+  }
+
+  lock(): void {
+    this.#locked = true;
+  }
+
+  isLocked(): boolean {
+    return this.#locked;
+  }
+}
+
+class SortedMap<V> extends OrderedMap<V> {}
+
+function withOrderedMap(fn: () => void): void {
+  registerType(OrderedMap, {
+    children: (map) => map.values(),
+    freeze: (map) => map.lock(),
+    clone: (map, clone) => {
+      const copy = new OrderedMap<unknown>();
+      map.values().forEach((value, i) => copy.set(String(i), clone(value)));
+      return copy;
+    },
+    isFrozen: (map) => map.isLocked(),
+  });
+  try {
+    fn();
+  } finally {
+    unregisterType(OrderedMap);
+  }
+}
+
+Deno.test("registerType - freeze uses children and the freeze hook", () => {
+  withOrderedMap(() => {
+    const item = { n: 1 };
+    const map = new OrderedMap<{ n: number }>().set("a", item);
+    freeze({ map });
+    assertEquals(Object.isFrozen(item), true);
+    assertThrows(() => map.set("b", { n: 2 }), TypeError);
+  });
+});
+
+Deno.test("registerType - validation uses children and the isFrozen hook", () => {
+  withOrderedMap(() => {
+    const map = new OrderedMap<{ n: number }>().set("a", { n: 1 });
+    Object.freeze(map);
+    assertEquals(isFrozen(map), false);
+
+    map.lock();
+    assertEquals(isFrozen(map), false);
+    assertEquals(findUnfrozenPath(Object.freeze({ map })), "map.children()[0]");
+
+    Object.freeze(map.values()[0]);
+    assertEquals(isFrozen(map), true);
+  });
+});
+
+Deno.test("registerType - frozenCopy uses the clone hook", () => {
+  withOrderedMap(() => {
+    const item = { n: 1 };
+    const original = new OrderedMap<{ n: number }>().set("a", item);
+    const copy = frozenCopy(original) as unknown as OrderedMap<{ n: number }>;
+    item.n = 2;
+    assertEquals(copy.values()[0]!.n, 1);
+    assertEquals(copy.isLocked(), true);
+    assertEquals(original.isLocked(), false);
+  });
+});
+
+Deno.test("registerType - handlers cover subclasses", () => {
+  withOrderedMap(() => {
+    assertEquals(getTypeHandler(new SortedMap()) !== undefined, true);
+  });
+  assertEquals(getTypeHandler(new SortedMap()), undefined);
+});
+
+Deno.test("registerType - overrides built-in treatment", () => {
+  class TagSet extends Set<string> {}
+  registerType(TagSet, { freeze: () => {} });
+  try {
+    const tags = new TagSet(["a"]);
+    freeze(tags);
+    // Without the default Set lock, add() still reaches the internal slot
+    tags.add("b");
+    assertEquals(tags.size, 2);
+  } finally {
+    unregisterType(TagSet);
+  }
+});
+
+Deno.test("unregisterType - reports whether a handler existed", () => {
+  class Unknown {}
+  assertEquals(unregisterType(Unknown), false);
+  registerType(Unknown, {});
+  assertEquals(unregisterType(Unknown), true);
+});
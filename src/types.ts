@@ -20,6 +20,19 @@ declare const FROZEN_BRAND: unique symbol;
  */
 export type FrozenBrand = { readonly [FROZEN_BRAND]: true };
 
+declare const SEALED_BRAND: unique symbol;
+declare const NON_EXTENSIBLE_BRAND: unique symbol;
+
+/**
+ * Brand type that marks an object as deeply sealed.
+ */
+export type SealedBrand = { readonly [SEALED_BRAND]: true };
+
+/**
+ * Brand type that marks an object as deeply non-extensible.
+ */
+export type NonExtensibleBrand = { readonly [NON_EXTENSIBLE_BRAND]: true };
+
 // =============================================================================
 // Deep Readonly Types
 // =============================================================================
@@ -51,6 +64,126 @@ export type DeepReadonlyMap<K, V> = ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>
  */
 export type DeepReadonlySet<T> = ReadonlySet<DeepReadonly<T>>;
 
+/**
+ * Names of the Date methods that mutate the time value.
+ */
+export type DateSetter = {
+  [K in keyof Date]: K extends `set${string}` ? K : never;
+}[keyof Date];
+
+/**
+ * A Date without its setters.
+ * Frozen dates are locked at runtime, so the setters would only throw.
+ */
+export type ReadonlyDate = Omit<Date, DateSetter>;
+
+/**
+ * URLSearchParams without the methods that change them.
+ */
+export type ReadonlyURLSearchParams = Omit<URLSearchParams, "append" | "delete" | "set" | "sort">;
+
+/**
+ * A URL whose components can't be assigned.
+ * Frozen URLs are locked at runtime, and so are their `searchParams`.
+ */
+export type ReadonlyURL = Readonly<Omit<URL, "searchParams">> & {
+  readonly searchParams: ReadonlyURLSearchParams;
+};
+
+/**
+ * Headers without the methods that change them.
+ */
+export type ReadonlyHeaders = Omit<Headers, "append" | "delete" | "set">;
+
+/**
+ * Any TypedArray.
+ */
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Binary data that `freeze` replaces with a read-only facade.
+ */
+export type BinaryData = ArrayBuffer | SharedArrayBuffer | DataView | TypedArray;
+
+/**
+ * An ArrayBuffer without the methods that resize or detach it.
+ */
+export type ReadonlyArrayBuffer = Omit<ArrayBuffer, "resize" | "transfer" | "transferToFixedLength">;
+
+/**
+ * A DataView without its setters.
+ */
+export type ReadonlyDataView = Omit<DataView, `set${string}` | "buffer"> & {
+  readonly buffer: ReadonlyArrayBuffer;
+};
+
+/**
+ * Names of the TypedArray methods that write in place.
+ */
+export type TypedArrayMutator = "set" | "fill" | "copyWithin" | "reverse" | "sort";
+
+/**
+ * A TypedArray with readonly elements and without its in-place mutators.
+ */
+export type ReadonlyTypedArray<T extends TypedArray> =
+  & Omit<T, number | TypedArrayMutator | "buffer" | "subarray">
+  & {
+    readonly [index: number]: T[number];
+    readonly buffer: ReadonlyArrayBuffer;
+    subarray(begin?: number, end?: number): ReadonlyTypedArray<T>;
+  };
+
+/**
+ * The read-only counterpart of a binary type.
+ */
+export type ReadonlyBinary<T extends BinaryData> = T extends TypedArray
+  ? ReadonlyTypedArray<T>
+  : T extends DataView
+    ? ReadonlyDataView
+    : ReadonlyArrayBuffer;
+
+/**
+ * Containers whose contents can't be reached, which `freeze` passes
+ * through, wraps in a read-only facade or rejects (see `OpaquePolicy`).
+ */
+export type OpaqueContainer =
+  | WeakMap<WeakKey, unknown>
+  | WeakSet<WeakKey>
+  | WeakRef<WeakKey>
+  | Promise<unknown>;
+
+/**
+ * A WeakMap without `set` and `delete`.
+ */
+export type ReadonlyWeakMap<K extends WeakKey, V> = Omit<WeakMap<K, V>, "set" | "delete">;
+
+/**
+ * A WeakSet without `add` and `delete`.
+ */
+export type ReadonlyWeakSet<T extends WeakKey> = Omit<WeakSet<T>, "add" | "delete">;
+
+/**
+ * The read-only counterpart of an opaque container. WeakRefs and Promises
+ * have no mutating methods and keep their type; their contents are not
+ * made readonly, since they are never frozen.
+ */
+export type ReadonlyOpaque<T extends OpaqueContainer> = T extends WeakMap<infer K, infer V>
+  ? ReadonlyWeakMap<K, V>
+  : T extends WeakSet<infer U>
+    ? ReadonlyWeakSet<U>
+    : T;
+
 /**
  * Deep readonly for plain objects.
  */
@@ -58,6 +191,21 @@ export type DeepReadonlyObject<T> = {
   readonly [K in keyof T]: DeepReadonly<T[K]>;
 };
 
+/**
+ * Deep readonly for functions and classes with static properties
+ * (`handler.meta = {...}`), which `freeze(obj, { functions: "freeze" })`
+ * freezes. Functions without statics keep their exact type. For one with
+ * statics the call (or construct) signature is rebuilt from its last
+ * overload, so overloads and type parameters are lost.
+ */
+export type DeepReadonlyFunction<T> = [keyof T] extends [never]
+  ? T
+  : T extends new (...args: infer A) => infer I
+    ? (new (...args: A) => I) & DeepReadonlyObject<T>
+    : T extends (...args: infer A) => infer R
+      ? ((...args: A) => R) & DeepReadonlyObject<T>
+      : T;
+
 /**
  * Recursively makes all properties readonly.
  * Unlike TypeScript's built-in `Readonly<T>`, this goes deep.
@@ -70,13 +218,213 @@ export type DeepReadonly<T> = T extends Primitive
       ? DeepReadonlyMap<K, V>
       : T extends Set<infer U>
         ? DeepReadonlySet<U>
-        : T extends Function
-          ? T
-          : T extends Date
-            ? Readonly<Date>
-            : T extends RegExp
-              ? Readonly<RegExp>
-              : DeepReadonlyObject<T>;
+        : T extends BinaryData
+          ? ReadonlyBinary<T>
+          : T extends Function
+            ? DeepReadonlyFunction<T>
+            : T extends Date
+              ? ReadonlyDate
+              : T extends RegExp
+                ? Readonly<RegExp>
+                : T extends URL
+                  ? ReadonlyURL
+                  : T extends URLSearchParams
+                    ? ReadonlyURLSearchParams
+                    : T extends Headers
+                      ? ReadonlyHeaders
+                      : T extends OpaqueContainer
+                        ? ReadonlyOpaque<T>
+                        : DeepReadonlyObject<T>;
+
+// =============================================================================
+// Paths - getIn() / setIn()
+// =============================================================================
+
+/**
+ * Values a path can't step into: collections other than arrays and Maps,
+ * built-ins with internal state, and functions.
+ */
+type PathLeaf =
+  | Primitive
+  | Function
+  | ReadonlySet<unknown>
+  | ReadonlyDate
+  | RegExp
+  | BinaryData
+  | ReadonlyBinary<BinaryData>
+  | ReadonlyURL
+  | ReadonlyURLSearchParams
+  | ReadonlyHeaders
+  | OpaqueContainer;
+
+/**
+ * Keys of one step into T: indexes for arrays, keys for Maps, property
+ * names for other objects.
+ */
+export type PathKey<T> = T extends PathLeaf
+  ? never
+  : T extends ReadonlyArray<unknown>
+    ? number
+    : T extends ReadonlyMap<infer K, unknown>
+      ? K
+      : Exclude<keyof T, keyof FrozenBrand>;
+
+/**
+ * What one step into T under key K reaches.
+ */
+type PathChild<T, K> = T extends ReadonlyArray<infer U>
+  ? U
+  : T extends ReadonlyMap<unknown, infer V>
+    ? V
+    : K extends keyof T
+      ? T[K]
+      : never;
+
+/**
+ * Non-empty paths into T starting with key K.
+ */
+type PathFrom<T, K, D extends number> = K extends unknown
+  ? readonly [K] | readonly [K, ...Path<NonNullable<PathChild<T, K>>, D>]
+  : never;
+
+/**
+ * Every path into T, as a tuple of keys: `["users", 0, "name"]`. Optional
+ * and nullable values can be stepped through. Paths are followed at most
+ * `D` levels deep (10 by default); any path is accepted into `unknown`.
+ */
+export type Path<T, D extends number = 10> = unknown extends T
+  ? readonly unknown[]
+  : [D] extends [never]
+    ? never
+    : PathFrom<T, PathKey<T>, PrevDepth[D]>;
+
+/**
+ * The type found at path P in T.
+ */
+export type PathValue<T, P extends readonly unknown[]> = P extends readonly [
+  infer K,
+  ...infer Rest,
+]
+  ? PathValue<PathChild<NonNullable<T>, K>, Rest>
+  : T;
+
+/**
+ * What `mergeIn()` merges into a value of type T: some of its properties,
+ * or entries for a Map.
+ */
+export type MergeChanges<T> = T extends ReadonlyMap<infer K, infer V>
+  ? ReadonlyMap<K, V>
+  : Partial<T>;
+
+// =============================================================================
+// Deep Partial - frozenMerge()
+// =============================================================================
+
+/**
+ * An override for `frozenMerge()`: every property of every nested plain
+ * object is optional. Arrays, Maps, Sets and other values are given whole,
+ * readonly or not.
+ */
+export type DeepPartial<T> = PartialDeep<Thawed<T>>;
+
+type PartialDeep<T> = T extends Primitive
+  ? T
+  : T extends Function
+    ? T
+    : T extends
+          | ReadonlyArray<unknown>
+          | ReadonlyMap<unknown, unknown>
+          | ReadonlySet<unknown>
+          | Date
+          | RegExp
+          | BinaryData
+          | URL
+          | URLSearchParams
+          | Headers
+          | OpaqueContainer
+      ? T | DeepReadonly<T>
+      : { readonly [K in keyof T]?: PartialDeep<T[K]> };
+
+// =============================================================================
+// Depth-Limited Readonly
+// =============================================================================
+
+/**
+ * One level of readonly: the top-level value can't be changed, nested
+ * values keep their original types.
+ * What `freeze(obj, { depth: 0 })` and `Object.freeze` produce.
+ */
+export type ShallowReadonly<T> = T extends Primitive
+  ? T
+  : T extends Array<infer U>
+    ? ReadonlyArray<U>
+    : T extends Map<infer K, infer V>
+      ? ReadonlyMap<K, V>
+      : T extends Set<infer U>
+        ? ReadonlySet<U>
+        : T extends BinaryData
+          ? ReadonlyBinary<T>
+          : T extends Function
+            ? T
+            : T extends Date
+              ? ReadonlyDate
+              : T extends RegExp
+                ? Readonly<RegExp>
+                : T extends URL
+                  ? ReadonlyURL
+                  : T extends URLSearchParams
+                    ? ReadonlyURLSearchParams
+                    : T extends Headers
+                      ? ReadonlyHeaders
+                      : T extends OpaqueContainer
+                        ? ReadonlyOpaque<T>
+                        : Readonly<T>;
+
+/**
+ * Depth counter: `PrevDepth[D]` is `D - 1` for D in 1..10.
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Readonly down to depth `D` (the root is depth 0), original types below.
+ * Depths beyond 10, or a non-literal `number`, fall back to `DeepReadonly`.
+ */
+export type DeepReadonlyToDepth<T, D extends number> = number extends D
+  ? DeepReadonly<T>
+  : D extends 0
+    ? ShallowReadonly<T>
+    : D extends 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10
+      ? ReadonlyLevel<T, PrevDepth[D]>
+      : DeepReadonly<T>;
+
+/**
+ * One readonly level whose children are readonly to depth `D`.
+ */
+type ReadonlyLevel<T, D extends number> = T extends Primitive
+  ? T
+  : T extends Array<infer U>
+    ? ReadonlyArray<DeepReadonlyToDepth<U, D>>
+    : T extends Map<infer K, infer V>
+      ? ReadonlyMap<DeepReadonlyToDepth<K, D>, DeepReadonlyToDepth<V, D>>
+      : T extends Set<infer U>
+        ? ReadonlySet<DeepReadonlyToDepth<U, D>>
+        : T extends BinaryData
+          ? ReadonlyBinary<T>
+          : T extends Function
+            ? T
+            : T extends Date
+              ? ReadonlyDate
+              : T extends RegExp
+                ? Readonly<RegExp>
+                : T extends URL
+                  ? ReadonlyURL
+                  : T extends URLSearchParams
+                    ? ReadonlyURLSearchParams
+                    : T extends Headers
+                      ? ReadonlyHeaders
+                      : T extends OpaqueContainer
+                        ? ReadonlyOpaque<T>
+                        : { readonly [K in keyof T]: DeepReadonlyToDepth<T[K], D> };
 
 // =============================================================================
 // Frozen<T> - The Main Type
@@ -88,6 +436,58 @@ export type DeepReadonly<T> = T extends Primitive
  */
 export type Frozen<T> = DeepReadonly<T> & FrozenBrand;
 
+// =============================================================================
+// Sealed<T> and NonExtensible<T>
+// =============================================================================
+
+/**
+ * Integrity level applied by the freeze traversal: `Object.freeze`,
+ * `Object.seal` or `Object.preventExtensions`.
+ */
+export type IntegrityLevel = "frozen" | "sealed" | "nonextensible";
+
+/**
+ * A sealed array: elements can be replaced, the length can't change.
+ */
+export type SealedArray<T> = Omit<T[], "push" | "pop" | "shift" | "unshift" | "splice" | "length"> & {
+  readonly length: number;
+};
+
+/**
+ * A non-extensible array: elements can be replaced and removed, not added.
+ */
+export type NonExtensibleArray<T> = Omit<T[], "push" | "unshift">;
+
+/**
+ * Applies an array wrapper through arrays, Map and Set contents and object
+ * properties. Values whose state isn't held in properties keep their type.
+ */
+type DeepShaped<T, L extends IntegrityLevel> = T extends Primitive
+  ? T
+  : T extends Array<infer U>
+    ? L extends "sealed"
+      ? SealedArray<DeepShaped<U, L>>
+      : NonExtensibleArray<DeepShaped<U, L>>
+    : T extends Map<infer K, infer V>
+      ? Map<DeepShaped<K, L>, DeepShaped<V, L>>
+      : T extends Set<infer U>
+        ? Set<DeepShaped<U, L>>
+        : T extends BinaryData | Function | Date | RegExp | URL | URLSearchParams | Headers | OpaqueContainer
+          ? T
+          : { [K in keyof T]: DeepShaped<T[K], L> };
+
+/**
+ * A deeply sealed object (`deepSeal`): properties can't be added or
+ * deleted anywhere, but keep their values and stay writable.
+ */
+export type Sealed<T> = DeepShaped<T, "sealed"> & SealedBrand;
+
+/**
+ * A deeply non-extensible object (`deepPreventExtensions`): properties
+ * can't be added anywhere, but can still be changed or deleted.
+ */
+export type NonExtensible<T> = DeepShaped<T, "nonextensible"> & NonExtensibleBrand;
+
 // =============================================================================
 // Utility Types
 // =============================================================================
@@ -114,12 +514,88 @@ export type IsFrozen<T> = T extends FrozenBrand ? true : false;
  */
 export type EnsureFrozen<T> = T extends FrozenBrand ? T : Frozen<T>;
 
+// =============================================================================
+// Protocol Symbols
+// =============================================================================
+
+/**
+ * Method key for custom freeze logic. See `SelfFreezing`.
+ * Registered with `Symbol.for`, so separate copies of the library agree.
+ */
+export const FREEZE: unique symbol = Symbol.for("flash-freeze.freeze");
+
+/**
+ * Method key for custom clone logic. See `Cloneable`.
+ */
+export const CLONE: unique symbol = Symbol.for("flash-freeze.clone");
+
+/**
+ * Method key for custom frozen-state checks. See `Validatable`.
+ */
+export const VALIDATE: unique symbol = Symbol.for("flash-freeze.validate");
+
 // =============================================================================
 // Freezable Interface
 // =============================================================================
 
+/**
+ * Interface for types with custom freeze logic, keyed by the `FREEZE`
+ * symbol so that no unrelated `freeze` method is mistaken for it.
+ *
+ * `freeze()` (the library function) calls `[FREEZE]()` on every such object
+ * it reaches, at the root or nested anywhere in the graph, at most once per
+ * traversal. The contract for the method:
+ *
+ * - Return `this` (the usual case) or a replacement object. A replacement
+ *   takes the object's place in its parent slot. Returning anything else
+ *   (`undefined`, a primitive) leaves the object in place, frozen as usual.
+ * - The returned value does not need to be deeply frozen - the traversal
+ *   continues into it - but an `Object.freeze`d result is treated as done.
+ * - Calling the library's `freeze(this)` from inside the method is allowed:
+ *   the object is then frozen generically, without recursing.
+ *
+ * @example
+ * ```ts
+ * class Connection implements SelfFreezing<Connection> {
+ *   [FREEZE]() {
+ *     this.socket = undefined;
+ *     return freeze(this);
+ *   }
+ * }
+ * ```
+ */
+export interface SelfFreezing<T = unknown> {
+  /**
+   * Freeze this object and return the frozen version, or nothing.
+   * May perform cleanup or validation before freezing.
+   */
+  [FREEZE](): Frozen<T> | void;
+}
+
+/**
+ * Type guard to check if a value implements SelfFreezing.
+ */
+export function isSelfFreezing<T>(value: unknown): value is SelfFreezing<T> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as SelfFreezing<T>)[FREEZE] === "function"
+  );
+}
+
 /**
  * Interface for types with custom freeze logic.
+ *
+ * The original, string-keyed protocol. Any object with a `freeze` method
+ * matches it, including objects whose `freeze` means something else. It is
+ * still honored by `freeze()` unless disabled with
+ * `configure({ legacyFreezeMethod: false })`.
+ *
+ * To migrate, implement `SelfFreezing` by renaming the method to
+ * `[FREEZE]`, or keep both during the transition:
+ * `[FREEZE]() { return this.freeze(); }`. The symbol always wins.
+ *
+ * @deprecated Implement `SelfFreezing` (`[FREEZE]()`) instead.
  */
 export interface Freezable<T = unknown> {
   /**
@@ -131,6 +607,8 @@ export interface Freezable<T = unknown> {
 
 /**
  * Type guard to check if a value implements Freezable.
+ *
+ * @deprecated Check for `SelfFreezing` with `isSelfFreezing` instead.
  */
 export function isFreezable<T>(value: unknown): value is Freezable<T> {
   return (
@@ -141,6 +619,104 @@ export function isFreezable<T>(value: unknown): value is Freezable<T> {
   );
 }
 
+// =============================================================================
+// Cloneable and Validatable Interfaces
+// =============================================================================
+
+/**
+ * Interface for types with custom clone logic, used by `frozenCopy()`.
+ *
+ * `[CLONE]` receives a `clone` function for copying children with the
+ * library's own rules (cycles, Maps, binary data, nested hooks). The copy
+ * it returns is frozen afterwards. References back to the object itself
+ * can't be cloned from inside its own hook.
+ *
+ * @example
+ * ```ts
+ * class Document implements Cloneable<Document> {
+ *   [CLONE](clone: <U>(value: U) => U) {
+ *     return new Document(clone(this.body)); // drop caches
+ *   }
+ * }
+ * ```
+ */
+export interface Cloneable<T = unknown> {
+  [CLONE](clone: <U>(value: U) => U): T;
+}
+
+/**
+ * Type guard to check if a value implements Cloneable.
+ */
+export function isCloneable<T>(value: unknown): value is Cloneable<T> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as Cloneable<T>)[CLONE] === "function"
+  );
+}
+
+/**
+ * Interface for types that can report whether they are really immutable,
+ * for state the generic check can't see (private fields, closures).
+ *
+ * `isFrozen()` consults `[VALIDATE]` in addition to its own checks, passing
+ * its deep check for use on children.
+ */
+export interface Validatable {
+  [VALIDATE](isFrozen: (value: unknown) => boolean): boolean;
+}
+
+/**
+ * Type guard to check if a value implements Validatable.
+ */
+export function isValidatable(value: unknown): value is Validatable {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as Validatable)[VALIDATE] === "function"
+  );
+}
+
+// =============================================================================
+// Draft<T> - produce()
+// =============================================================================
+
+/**
+ * What `produce()` hands its recipe: objects, arrays, Maps, Sets and Dates
+ * become writable copy-on-write drafts. Map keys and Set members are not
+ * drafted, and other values keep their read-only type, since they have to
+ * be replaced rather than changed.
+ */
+export type Draft<T> = T extends FrozenBrand ? DraftDeep<Thawed<T>> : DraftDeep<T>;
+
+/**
+ * Recursively makes draftable values writable.
+ */
+type DraftDeep<T> = T extends Primitive
+  ? T
+  : T extends Function
+    ? T
+    : T extends ReadonlyArray<infer U>
+      ? Array<DraftDeep<U>>
+      : T extends ReadonlyMap<infer K, infer V>
+        ? Map<K, DraftDeep<V>>
+        : T extends ReadonlySet<infer U>
+          ? Set<U>
+          : T extends ReadonlyDate
+            ? Date
+            : T extends
+                  | BinaryData
+                  | ReadonlyBinary<BinaryData>
+                  | RegExp
+                  | ReadonlyURL
+                  | ReadonlyURLSearchParams
+                  | ReadonlyHeaders
+                  | OpaqueContainer
+                  | ReadonlyWeakMap<WeakKey, unknown>
+                  | ReadonlyWeakSet<WeakKey>
+              ? T
+              : { -readonly [K in keyof T]: DraftDeep<T[K]> };
+
 // =============================================================================
 // Mutable<T> - Escape Hatch
 // =============================================================================
@@ -164,6 +740,20 @@ type MutableDeep<T> = T extends Primitive
       ? Map<MutableDeep<K>, MutableDeep<V>>
       : T extends ReadonlySet<infer U>
         ? Set<MutableDeep<U>>
-        : T extends object
-          ? { -readonly [K in keyof T]: MutableDeep<T[K]> }
-          : T;
+        : T extends ReadonlyDate
+          ? Date
+          : T extends ReadonlyURL
+            ? URL
+            : T extends ReadonlyURLSearchParams
+              ? URLSearchParams
+              : T extends ReadonlyHeaders
+                ? Headers
+                : T extends ReadonlyWeakMap<infer K, infer V>
+                  ? WeakMap<K, V>
+                  : T extends ReadonlyWeakSet<infer U>
+                    ? WeakSet<U>
+                    : T extends WeakRef<WeakKey> | Promise<unknown>
+                      ? T
+                      : T extends object
+                        ? { -readonly [K in keyof T]: MutableDeep<T[K]> }
+                        : T;
@@ -0,0 +1,357 @@
+/**
+ * Path-based updates of frozen values.
+ *
+ * `setIn(state, ["users", 0, "name"], "Bob")` returns a new frozen value
+ * in which only the objects along the path - the root, `users`, `users[0]`
+ * - are copied. Everything else is shared with `state` by reference, so
+ * the cost of an update is the depth of the path, not the size of the
+ * tree, and unchanged subtrees keep their identity for memoization.
+ *
+ * Paths are tuples of property names, array indexes and Map keys, checked
+ * against the value's type. Plain objects, arrays and Maps can be stepped
+ * through; stepping into anything else throws a TypeError.
+ *
+ * Only the copies and the new values are frozen. Subtrees shared with the
+ * original are not looked at again, so the updates cost the same on a large
+ * frozen tree as on a small one - and parts of an original that wasn't
+ * frozen stay mutable, in the original and in the result alike.
+ *
+ * @module
+ */
+
+import { freeze } from "./freeze.ts";
+import { copyKind, shallowCopy, typeName } from "./objects.ts";
+import { indexPath, keyText, mapValuePath, propertyPath } from "./path.ts";
+import type { EnsureFrozen, MergeChanges, Path, PathValue } from "./types.ts";
+
+// =============================================================================
+// Nodes
+// =============================================================================
+
+type NodeKind = "object" | "array" | "map";
+
+/** Returned by a leaf update to remove the key. */
+const REMOVE = Symbol("remove");
+
+type LeafUpdate = (current: unknown, exists: boolean, at: string) => unknown;
+
+/**
+ * What kind of node a value is, or undefined if a path can't step into it.
+ */
+function nodeKind(value: object): NodeKind | undefined {
+  const kind = copyKind(value);
+  return kind === "object" || kind === "array" || kind === "map" ? kind : undefined;
+}
+
+function describe(at: string): string {
+  return at === "" ? "the root" : at;
+}
+
+function checkKey(kind: NodeKind, key: unknown, at: string): void {
+  if (kind === "array" && !(typeof key === "number" && Number.isInteger(key) && key >= 0)) {
+    throw new TypeError(`Invalid array index ${keyText(key)} at ${describe(at)}`);
+  }
+  const type = typeof key;
+  if (kind === "object" && type !== "string" && type !== "number" && type !== "symbol") {
+    throw new TypeError(`Invalid property key ${keyText(key)} at ${describe(at)}`);
+  }
+}
+
+function keyPath(kind: NodeKind, at: string, key: unknown): string {
+  switch (kind) {
+    case "array":
+      return indexPath(at, key as number);
+    case "map":
+      return mapValuePath(at, key);
+    case "object":
+      return propertyPath(at, typeof key === "symbol" ? key : String(key));
+  }
+}
+
+function readKey(node: object, kind: NodeKind, key: unknown): unknown {
+  return kind === "map"
+    ? (node as Map<unknown, unknown>).get(key)
+    : (node as Record<PropertyKey, unknown>)[key as PropertyKey];
+}
+
+function hasKey(node: object, kind: NodeKind, key: unknown): boolean {
+  return kind === "map"
+    ? (node as Map<unknown, unknown>).has(key)
+    : Object.prototype.hasOwnProperty.call(node, key as PropertyKey);
+}
+
+/**
+ * Shallow copy of a node, with one key set or removed, frozen without
+ * looking at the values it shares with the node again.
+ */
+function withKey(node: object, kind: NodeKind, key: unknown, value: unknown): object {
+  const copy = shallowCopy(node, kind);
+  writeKey(copy, kind, key, value);
+  return freeze(copy, { depth: 0 });
+}
+
+/**
+ * Set or remove (with `REMOVE`) a key of a writable node. Removing an
+ * array element shifts the ones after it.
+ */
+function writeKey(node: object, kind: NodeKind, key: unknown, value: unknown): void {
+  if (kind === "map") {
+    if (value === REMOVE) {
+      (node as Map<unknown, unknown>).delete(key);
+    } else {
+      (node as Map<unknown, unknown>).set(key, value);
+    }
+  } else if (value === REMOVE) {
+    if (kind === "array") {
+      (node as unknown[]).splice(key as number, 1);
+    } else {
+      delete (node as Record<PropertyKey, unknown>)[key as PropertyKey];
+    }
+  } else {
+    Object.defineProperty(node, key as PropertyKey, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+}
+
+// =============================================================================
+// Path Traversal
+// =============================================================================
+
+/**
+ * Apply a leaf update at `path[index..]` below `node`, copying the nodes on
+ * the way down only if something below them changes.
+ *
+ * @param create - Whether missing nodes along the path are created (as an
+ *   array for a numeric key, a plain object otherwise), or the update is
+ *   dropped
+ * @returns The node itself if nothing changed, its updated copy otherwise
+ */
+function updateAt(
+  node: unknown,
+  path: readonly unknown[],
+  index: number,
+  at: string,
+  create: boolean,
+  leaf: LeafUpdate
+): unknown {
+  const kind = node !== null && typeof node === "object" ? nodeKind(node) : undefined;
+  if (kind === undefined) {
+    const what = node === null ? "null" : typeof node === "object" ? typeName(node) : typeof node;
+    throw new TypeError(`Cannot step into ${what} at ${describe(at)}`);
+  }
+  const obj = node as object;
+  const key = path[index];
+  checkKey(kind, key, at);
+
+  const current = readKey(obj, kind, key);
+  const exists = hasKey(obj, kind, key);
+
+  let next: unknown;
+  if (index === path.length - 1) {
+    next = leaf(current, exists, keyPath(kind, at, key));
+    if (next === REMOVE && !exists) {
+      return obj;
+    }
+  } else if (current === undefined || current === null) {
+    if (!create) {
+      return obj;
+    }
+    const empty = typeof path[index + 1] === "number" ? [] : {};
+    next = updateAt(empty, path, index + 1, keyPath(kind, at, key), create, leaf);
+  } else {
+    next = updateAt(current, path, index + 1, keyPath(kind, at, key), create, leaf);
+  }
+
+  if (exists && Object.is(next, current)) {
+    return obj;
+  }
+  // A new leaf value is frozen deeply; copies made below are frozen already
+  return withKey(obj, kind, key, freeze(next));
+}
+
+function updatePath<T>(
+  value: T,
+  path: readonly unknown[],
+  create: boolean,
+  leaf: LeafUpdate
+): EnsureFrozen<T> {
+  if (path.length === 0) {
+    throw new TypeError("Path must not be empty");
+  }
+  return updateAt(value, path, 0, "", create, leaf) as EnsureFrozen<T>;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Read the value at a path.
+ *
+ * @param value - Value to read from
+ * @param path - Property names, array indexes and Map keys to follow
+ * @returns The value at the path, or undefined if a step along it is
+ *   missing or isn't an object
+ *
+ * @example
+ * ```ts
+ * const state = freeze({ users: [{ name: "Ada" }] });
+ * getIn(state, ["users", 0, "name"]);  // "Ada"
+ * getIn(state, ["users", 5, "name"]);  // undefined
+ * ```
+ */
+export function getIn<T, const P extends Path<T>>(
+  value: T,
+  path: P
+): PathValue<T, P> | undefined {
+  let current: unknown = value;
+  for (let i = 0; i < path.length; i++) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = current instanceof Map
+      ? current.get(path[i])
+      : (current as Record<PropertyKey, unknown>)[path[i] as PropertyKey];
+  }
+  return current as PathValue<T, P>;
+}
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+/**
+ * Set the value at a path, returning a new frozen value. Only the objects
+ * along the path are copied; everything else is shared with the original.
+ * Missing objects along the path are created. Setting a value that is
+ * already there returns the original.
+ *
+ * @param value - Value to update (not changed)
+ * @param path - Property names, array indexes and Map keys to follow
+ * @param newValue - Value to store at the path (frozen in the result)
+ * @returns Frozen copy of the value with the path set
+ * @throws TypeError if the path is empty or steps into something other
+ *   than a plain object, array or Map
+ *
+ * @example
+ * ```ts
+ * const state = freeze({ users: [{ name: "Ada" }], settings: { theme: "dark" } });
+ * const next = setIn(state, ["users", 0, "name"], "Bob");
+ *
+ * next.users[0].name;                     // "Bob"
+ * next.settings === state.settings;       // true - shared
+ * ```
+ */
+export function setIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  newValue: PathValue<T, P>
+): EnsureFrozen<T> {
+  return updatePath(value, path, true, () => newValue);
+}
+
+/**
+ * Replace the value at a path with the result of a function, returning a
+ * new frozen value. Works like `setIn`; if the function returns the value
+ * it was given, the original is returned.
+ *
+ * @param value - Value to update (not changed)
+ * @param path - Property names, array indexes and Map keys to follow
+ * @param updater - Receives the current value at the path (undefined if
+ *   missing) and returns the new one
+ * @returns Frozen copy of the value with the path updated
+ * @throws TypeError if the path is empty or steps into something other
+ *   than a plain object, array or Map
+ *
+ * @example
+ * ```ts
+ * const next = updateIn(state, ["stats", "visits"], (n) => (n ?? 0) + 1);
+ * ```
+ */
+export function updateIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  updater: (current: PathValue<T, P>) => PathValue<T, P>
+): EnsureFrozen<T> {
+  return updatePath(value, path, true, (current) => updater(current as PathValue<T, P>));
+}
+
+/**
+ * Remove the value at a path, returning a new frozen value. Removes the
+ * property, the Map entry, or the array element - shifting the ones after
+ * it. If anything along the path is missing, the original is returned.
+ *
+ * @param value - Value to update (not changed)
+ * @param path - Property names, array indexes and Map keys to follow
+ * @returns Frozen copy of the value without the path
+ * @throws TypeError if the path is empty or steps into something other
+ *   than a plain object, array or Map
+ *
+ * @example
+ * ```ts
+ * const next = deleteIn(state, ["users", 0]);
+ * ```
+ */
+export function deleteIn<T, const P extends Path<T>>(value: T, path: P): EnsureFrozen<T> {
+  return updatePath(value, path, false, () => REMOVE);
+}
+
+/**
+ * Merge properties into the object at a path (or entries into the Map at
+ * a path), returning a new frozen value. A missing object is created. If
+ * every change is already there, the original is returned.
+ *
+ * @param value - Value to update (not changed)
+ * @param path - Property names, array indexes and Map keys to follow
+ * @param changes - Properties to set, or entries for a Map
+ * @returns Frozen copy of the value with the changes merged in
+ * @throws TypeError if the path is empty, steps into something other than
+ *   a plain object, array or Map, or ends at something other than a plain
+ *   object or Map
+ *
+ * @example
+ * ```ts
+ * const next = mergeIn(state, ["settings"], { theme: "light", fontSize: 14 });
+ * ```
+ */
+export function mergeIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  changes: MergeChanges<NonNullable<PathValue<T, P>>>
+): EnsureFrozen<T> {
+  return updatePath(value, path, true, (current, _exists, at) => merge(current, changes, at));
+}
+
+/**
+ * Merge changes into an object or Map, copying it once if any differ.
+ */
+function merge(current: unknown, changes: unknown, at: string): unknown {
+  const target = current ?? (changes instanceof Map ? new Map() : {});
+  const kind = typeof target === "object" ? nodeKind(target) : undefined;
+  if (kind === undefined || kind === "array") {
+    const what = typeof target === "object" ? typeName(target) : typeof target;
+    throw new TypeError(`Cannot merge into ${what} at ${at}`);
+  }
+
+  const entries: [unknown, unknown][] = changes instanceof Map
+    ? [...changes]
+    : Reflect.ownKeys(changes as object)
+      .filter((key) => Object.prototype.propertyIsEnumerable.call(changes, key))
+      .map((key) => [key, (changes as Record<PropertyKey, unknown>)[key]]);
+
+  const changed = entries.filter(
+    ([key, value]) => !hasKey(target, kind, key) || !Object.is(readKey(target, kind, key), value)
+  );
+  if (changed.length === 0) {
+    return target;
+  }
+  const copy = shallowCopy(target, kind);
+  for (const [key, value] of changed) {
+    writeKey(copy, kind, key, freeze(value));
+  }
+  return freeze(copy, { depth: 0 });
+}
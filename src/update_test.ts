@@ -0,0 +1,203 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { makeState } from "./fixtures_test.ts";
+import { deleteIn, getIn, mergeIn, setIn, updateIn } from "./update.ts";
+import { isFrozen } from "./validation.ts";
+
+// =============================================================================
+// getIn
+// =============================================================================
+
+Deno.test("getIn - follows properties, indexes and Map keys", () => {
+  const state = makeState();
+  assertEquals(getIn(state, ["users", 1, "name"]), "Alan");
+  assertEquals(getIn(state, ["scores", "ada", "best"]), 10);
+  assertEquals(getIn(state, ["settings"]), state.settings);
+});
+
+Deno.test("getIn - undefined for missing steps", () => {
+  const state = makeState();
+  assertEquals(getIn(state, ["users", 5, "name"]), undefined);
+  assertEquals(getIn(state, ["extra", "notes", 0]), undefined);
+  assertEquals(getIn(state, ["scores", "bob", "best"]), undefined);
+});
+
+// =============================================================================
+// setIn
+// =============================================================================
+
+Deno.test("setIn - copies only the spine and shares the rest", () => {
+  const state = makeState();
+  const next = setIn(state, ["users", 0, "name"], "Bob");
+
+  assertEquals(next.users[0]!.name, "Bob");
+  assertEquals(state.users[0]!.name, "Ada");
+  assertEquals(next === state, false);
+  assertEquals(next.users === state.users, false);
+  assertEquals(next.users[1] === state.users[1], true);
+  assertEquals(next.settings === state.settings, true);
+  assertEquals(next.scores === state.scores, true);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("setIn - leaves the subtrees of an unfrozen original alone", () => {
+  const state: { a: unknown; other: { n: number }; list: { n: number }[] } = {
+    a: 0,
+    other: { n: 1 },
+    list: [{ n: 2 }],
+  };
+  const next = setIn(state, ["list", 0, "n"], 3);
+  assertEquals(state.list[0]!.n, 2);
+  assertEquals(Object.isFrozen(state), false);
+  assertEquals(Object.isFrozen(state.other), false);
+  assertEquals(Object.isFrozen(state.list[0]), false);
+  assertEquals(Object.isFrozen(next), true);
+  assertEquals(Object.isFrozen(next.list[0]), true);
+  assertEquals(next.other === state.other, true);
+  const deep = { inner: {} };
+  setIn(state, ["a"], deep);
+  assertEquals(Object.isFrozen(deep.inner), true);
+});
+
+Deno.test("mergeIn - freezes the merged values, not what they sit next to", () => {
+  const state = { settings: { theme: "dark", flags: { beta: false }, extra: { x: 0 } } };
+  const next = mergeIn(state, ["settings"], { extra: { x: 1 } });
+  assertEquals(Object.isFrozen(next.settings), true);
+  assertEquals(Object.isFrozen(next.settings.extra), true);
+  assertEquals(Object.isFrozen(state.settings.flags), false);
+});
+
+Deno.test("setIn - same value returns the original", () => {
+  const state = makeState();
+  assertEquals(setIn(state, ["settings", "theme"], "dark") === state, true);
+});
+
+Deno.test("setIn - steps through Maps", () => {
+  const state = makeState();
+  const next = setIn(state, ["scores", "ada", "best"], 12);
+  assertEquals(next.scores.get("ada")!.best, 12);
+  assertEquals(next.scores.get("alan") === state.scores.get("alan"), true);
+  assertEquals(state.scores.get("ada")!.best, 10);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("setIn - creates missing objects and arrays", () => {
+  const state = makeState();
+  const next = setIn(state, ["extra", "notes", 0], "first");
+  assertEquals(next.extra, { notes: ["first"] });
+  assertEquals(Array.isArray(next.extra!.notes), true);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("setIn - freezes the new value", () => {
+  const state = makeState();
+  const next = setIn(state, ["settings", "flags"], { beta: true });
+  assertEquals(Object.isFrozen(next.settings.flags), true);
+});
+
+Deno.test("setIn - rejects paths into other values", () => {
+  const state = makeState();
+  assertThrows(
+    () => setIn(state as any, ["tags", "a"], 1),
+    TypeError,
+    "Cannot step into Set at tags"
+  );
+  assertThrows(
+    () => setIn(state as any, ["settings", "theme", "length"], 1),
+    TypeError,
+    "Cannot step into string at settings.theme"
+  );
+  assertThrows(() => setIn(state as any, ["users", "first"], 1), TypeError, "Invalid array index");
+  assertThrows(() => setIn(state as any, [], 1), TypeError, "Path must not be empty");
+});
+
+Deno.test("setIn - type-checks paths and values", () => {
+  const state = makeState();
+  // @ts-expect-error - no such property
+  setIn(state, ["users", 0, "email"], "x");
+  // @ts-expect-error - wrong value type
+  setIn(state, ["users", 0, "age"], "old");
+  setIn(state, ["users", 0, "nickname"], undefined);
+});
+
+// =============================================================================
+// updateIn
+// =============================================================================
+
+Deno.test("updateIn - applies the updater to the current value", () => {
+  const state = makeState();
+  const next = updateIn(state, ["users", 1, "age"], (age) => age + 1);
+  assertEquals(next.users[1]!.age, 42);
+  assertEquals(next.users[0] === state.users[0], true);
+});
+
+Deno.test("updateIn - receives undefined for missing values", () => {
+  const state = makeState();
+  const next = updateIn(state, ["users", 0, "nickname"], (nickname) => nickname ?? "A");
+  assertEquals(next.users[0]!.nickname, "A");
+});
+
+Deno.test("updateIn - returning the same value returns the original", () => {
+  const state = makeState();
+  assertEquals(updateIn(state, ["settings", "flags"], (flags) => flags) === state, true);
+});
+
+// =============================================================================
+// deleteIn
+// =============================================================================
+
+Deno.test("deleteIn - removes properties, Map entries and array elements", () => {
+  const state = makeState();
+
+  const withoutFlags = deleteIn(state, ["settings", "flags"]);
+  assertEquals("flags" in withoutFlags.settings, false);
+
+  const withoutAda = deleteIn(state, ["scores", "ada"]);
+  assertEquals([...withoutAda.scores.keys()], ["alan"]);
+
+  const withoutFirst = deleteIn(state, ["users", 0]);
+  assertEquals(withoutFirst.users.map((u) => u.name), ["Alan"]);
+  assertEquals(withoutFirst.users[0] === state.users[1], true);
+  assertEquals(isFrozen(withoutFirst), true);
+});
+
+Deno.test("deleteIn - missing paths return the original", () => {
+  const state = makeState();
+  assertEquals(deleteIn(state, ["users", 0, "nickname"]) === state, true);
+  assertEquals(deleteIn(state, ["extra", "notes"]) === state, true);
+  assertEquals(deleteIn(state, ["scores", "bob"]) === state, true);
+});
+
+// =============================================================================
+// mergeIn
+// =============================================================================
+
+Deno.test("mergeIn - merges properties into an object", () => {
+  const state = makeState();
+  const next = mergeIn(state, ["settings"], { theme: "light", fontSize: 14 });
+  assertEquals(next.settings.theme, "light");
+  assertEquals(next.settings.fontSize, 14);
+  assertEquals(next.settings.flags === state.settings.flags, true);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("mergeIn - merges entries into a Map", () => {
+  const state = makeState();
+  const next = mergeIn(state, ["scores"], new Map([["bob", { best: 3 }]]));
+  assertEquals([...next.scores.keys()], ["ada", "alan", "bob"]);
+  assertEquals(next.scores.get("ada") === state.scores.get("ada"), true);
+  assertEquals(isFrozen(next), true);
+});
+
+Deno.test("mergeIn - unchanged values return the original", () => {
+  const state = makeState();
+  assertEquals(mergeIn(state, ["settings"], { theme: "dark" }) === state, true);
+});
+
+Deno.test("mergeIn - rejects arrays", () => {
+  const state = makeState();
+  assertThrows(
+    () => mergeIn(state as any, ["users"], { 0: {} }),
+    TypeError,
+    "Cannot merge into Array at users"
+  );
+});
@@ -7,7 +7,22 @@
  * @module
  */
 
-import type { Frozen } from "./types.ts";
+import { isBinary } from "./binary.ts";
+import { getConfig, isProduction } from "./config.ts";
+import { isFacade, isImmobile } from "./lock.ts";
+import { isOpaque } from "./opaque.ts";
+import {
+  childPath,
+  indexPath,
+  mapKeyPath,
+  mapValuePath,
+  propertyPath,
+  setItemPath,
+} from "./path.ts";
+import { getTypeHandler } from "./registry.ts";
+import type { TypeHandler } from "./registry.ts";
+import type { Frozen, IntegrityLevel, NonExtensible, Sealed } from "./types.ts";
+import { isValidatable, VALIDATE } from "./types.ts";
 
 // =============================================================================
 // Type Guards
@@ -37,7 +52,56 @@ export function isShallowFrozen(value: unknown): boolean {
     return true; // Primitives are inherently immutable
   }
 
-  return Object.isFrozen(value);
+  const obj = value as object;
+  return isShallowImmobile(obj, getTypeHandler(obj));
+}
+
+/**
+ * A function's `prototype` object belongs to its instances, not to the
+ * function, so it is not part of the function's frozen state.
+ */
+function isSharedPrototype(obj: object, key: string): boolean {
+  return key === "prototype" && typeof obj === "function";
+}
+
+/**
+ * Shallow check, deferring to a registered type's `isFrozen` hook.
+ */
+function isShallowImmobile(obj: object, handler: TypeHandler | undefined): boolean {
+  if (handler?.isFrozen) {
+    return handler.isFrozen(obj);
+  }
+  // Opaque containers can't be frozen; the configured policy says whether
+  // one left as it is counts
+  if (handler === undefined && !isFacade(obj) && isOpaque(obj)) {
+    return getConfig().opaque === "reference";
+  }
+  return isImmobile(obj);
+}
+
+/**
+ * Shallow check for an integrity level. Sealing and preventing extensions
+ * leave binary data, facades and opaque containers as they are.
+ */
+function hasShallowLevel(
+  obj: object,
+  handler: TypeHandler | undefined,
+  level: IntegrityLevel
+): boolean {
+  if (level === "frozen") {
+    return isShallowImmobile(obj, handler);
+  }
+  if (isBinary(obj) || isLeaf(obj, handler)) {
+    return true;
+  }
+  return level === "sealed" ? Object.isSealed(obj) : !Object.isExtensible(obj);
+}
+
+/**
+ * Facades and opaque containers have no contents to check.
+ */
+function isLeaf(obj: object, handler: TypeHandler | undefined): boolean {
+  return isFacade(obj) || (handler === undefined && isOpaque(obj));
 }
 
 /**
@@ -46,8 +110,14 @@ export function isShallowFrozen(value: unknown): boolean {
  *
  * Handles:
  * - Circular references (won't infinite loop)
- * - Arrays, Maps, Sets
+ * - Arrays, Maps, Sets (which must also be locked, not just `Object.freeze`d)
+ * - Binary data (which must be a read-only facade)
+ * - WeakMaps, WeakSets, WeakRefs and Promises, according to the configured
+ *   `opaque` policy
+ * - Objects implementing `Validatable`, whose `[VALIDATE]` must also pass
  * - Objects with custom prototypes
+ * - Functions and their static properties (but not their `prototype`
+ *   object, which, like an object's prototype, is shared state)
  *
  * @param value - Value to check
  * @returns True if value and ALL nested values are frozen
@@ -64,7 +134,7 @@ export function isShallowFrozen(value: unknown): boolean {
  * ```
  */
 export function isFrozen(value: unknown): value is Frozen<unknown> {
-  return isFrozenImpl(value, new WeakSet());
+  return isFrozenImpl(value, new WeakSet(), "frozen");
 }
 
 /**
@@ -73,9 +143,10 @@ export function isFrozen(value: unknown): value is Frozen<unknown> {
 export const isDeeplyFrozen: (value: unknown) => value is Frozen<unknown> = isFrozen;
 
 /**
- * Internal implementation with visited set for cycle detection.
+ * Internal implementation with visited set for cycle detection, shared by
+ * the sealed and non-extensible checks.
  */
-function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
+function isFrozenImpl(value: unknown, visited: WeakSet<object>, level: IntegrityLevel): boolean {
   // Primitives and null/undefined are inherently immutable
   if (value === null || value === undefined) {
     return true;
@@ -93,18 +164,43 @@ function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
     return true;
   }
 
-  // Top level must be frozen
-  if (!Object.isFrozen(obj)) {
+  // Top level must be frozen (and locked, for Maps and Sets)
+  const handler = getTypeHandler(obj);
+  if (!hasShallowLevel(obj, handler, level)) {
     return false;
   }
 
+  // Read-only facades and opaque containers have nothing further to check
+  if (isLeaf(obj, handler)) {
+    return true;
+  }
+
   visited.add(obj);
 
+  // Objects can vouch for state the generic checks below can't see
+  if (
+    level === "frozen" &&
+    isValidatable(obj) &&
+    !obj[VALIDATE]((child) => isFrozenImpl(child, visited, level))
+  ) {
+    return false;
+  }
+
+  // Registered types list their own children
+  if (handler?.children) {
+    for (const child of handler.children(obj)) {
+      if (!isFrozenImpl(child, visited, level)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   // Check arrays
   if (Array.isArray(obj)) {
     const len = obj.length;
     for (let i = 0; i < len; i++) {
-      if (!isFrozenImpl(obj[i], visited)) {
+      if (!isFrozenImpl(obj[i], visited, level)) {
         return false;
       }
     }
@@ -114,7 +210,7 @@ function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
   // Check Maps
   if (obj instanceof Map) {
     for (const [key, val] of obj) {
-      if (!isFrozenImpl(key, visited) || !isFrozenImpl(val, visited)) {
+      if (!isFrozenImpl(key, visited, level) || !isFrozenImpl(val, visited, level)) {
         return false;
       }
     }
@@ -124,7 +220,7 @@ function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
   // Check Sets
   if (obj instanceof Set) {
     for (const item of obj) {
-      if (!isFrozenImpl(item, visited)) {
+      if (!isFrozenImpl(item, visited, level)) {
         return false;
       }
     }
@@ -135,9 +231,10 @@ function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
   const propNames = Object.getOwnPropertyNames(obj);
   for (let i = 0; i < propNames.length; i++) {
     const propName = propNames[i]!;
+    if (isSharedPrototype(obj, propName)) continue;
     try {
       const propValue = (obj as Record<string, unknown>)[propName];
-      if (!isFrozenImpl(propValue, visited)) {
+      if (!isFrozenImpl(propValue, visited, level)) {
         return false;
       }
     } catch {
@@ -154,7 +251,7 @@ function isFrozenImpl(value: unknown, visited: WeakSet<object>): boolean {
 // =============================================================================
 
 /**
- * Error thrown when an assertion about frozen state fails.
+ * Error thrown when an assertion about frozen (or sealed) state fails.
  */
 export class FrozenAssertionError extends Error {
   constructor(
@@ -176,6 +273,8 @@ export class FrozenAssertionError extends Error {
  * - API responses
  * - Cache retrievals
  *
+ * Passes without checking in production mode, where freezing is skipped.
+ *
  * @param value - Value to check
  * @param name - Optional name for error messages
  * @throws FrozenAssertionError if value is not deeply frozen
@@ -192,7 +291,7 @@ export function assertFrozen(
   value: unknown,
   name: string = "value"
 ): asserts value is Frozen<unknown> {
-  if (!isFrozen(value)) {
+  if (!isProduction() && !isFrozen(value)) {
     throw new FrozenAssertionError(
       `Expected ${name} to be deeply frozen, but it is not. ` +
         `Use freeze() or frozenCopy() to create immutable data.`,
@@ -203,7 +302,8 @@ export function assertFrozen(
 
 /**
  * Assert that a value is shallowly frozen.
- * Less strict than assertFrozen - only checks top level.
+ * Less strict than assertFrozen - only checks top level. Passes without
+ * checking in production mode.
  *
  * @param value - Value to check
  * @param name - Optional name for error messages
@@ -213,7 +313,7 @@ export function assertShallowFrozen(
   value: unknown,
   name: string = "value"
 ): void {
-  if (!isShallowFrozen(value)) {
+  if (!isProduction() && !isShallowFrozen(value)) {
     throw new FrozenAssertionError(
       `Expected ${name} to be frozen at the top level, but it is not.`,
       value
@@ -273,13 +373,23 @@ export function assertMutable(
  * ```
  */
 export function findUnfrozenPath(value: unknown): string | null {
-  return findUnfrozenPathImpl(value, "", new WeakSet());
+  return findUnfrozenPathImpl(value, "", new WeakSet(), false, "frozen");
+}
+
+/**
+ * Like `findUnfrozenPath`, but a property that throws when read counts as
+ * unfrozen, since its value can't be checked. Used by strict freezing.
+ */
+export function findUncheckedPath(value: unknown): string | null {
+  return findUnfrozenPathImpl(value, "", new WeakSet(), true, "frozen");
 }
 
 function findUnfrozenPathImpl(
   value: unknown,
   path: string,
-  visited: WeakSet<object>
+  visited: WeakSet<object>,
+  failOnUnreadable: boolean,
+  level: IntegrityLevel
 ): string | null {
   if (value === null || value === undefined) {
     return null;
@@ -296,19 +406,46 @@ function findUnfrozenPathImpl(
     return null;
   }
 
-  if (!Object.isFrozen(obj)) {
+  const handler = getTypeHandler(obj);
+  if (!hasShallowLevel(obj, handler, level)) {
     return path || "(root)";
   }
 
+  if (isLeaf(obj, handler)) {
+    return null;
+  }
+
   visited.add(obj);
 
+  if (level === "frozen" && isValidatable(obj) && !obj[VALIDATE](isFrozen)) {
+    return path || "(root)";
+  }
+
+  if (handler?.children) {
+    let index = 0;
+    for (const child of handler.children(obj)) {
+      const result = findUnfrozenPathImpl(
+        child,
+        childPath(path, index),
+        visited,
+        failOnUnreadable,
+        level
+      );
+      if (result !== null) return result;
+      index++;
+    }
+    return null;
+  }
+
   // Check arrays
   if (Array.isArray(obj)) {
     for (let i = 0; i < obj.length; i++) {
       const result = findUnfrozenPathImpl(
         obj[i],
-        path ? `${path}[${i}]` : `[${i}]`,
-        visited
+        indexPath(path, i),
+        visited,
+        failOnUnreadable,
+        level
       );
       if (result !== null) return result;
     }
@@ -321,15 +458,19 @@ function findUnfrozenPathImpl(
     for (const [key, val] of obj) {
       const keyResult = findUnfrozenPathImpl(
         key,
-        path ? `${path}.keys()[${index}]` : `keys()[${index}]`,
-        visited
+        mapKeyPath(path, index),
+        visited,
+        failOnUnreadable,
+        level
       );
       if (keyResult !== null) return keyResult;
 
       const valResult = findUnfrozenPathImpl(
         val,
-        path ? `${path}.get(${String(key)})` : `get(${String(key)})`,
-        visited
+        mapValuePath(path, key),
+        visited,
+        failOnUnreadable,
+        level
       );
       if (valResult !== null) return valResult;
 
@@ -344,8 +485,10 @@ function findUnfrozenPathImpl(
     for (const item of obj) {
       const result = findUnfrozenPathImpl(
         item,
-        path ? `${path}.values()[${index}]` : `values()[${index}]`,
-        visited
+        setItemPath(path, index),
+        visited,
+        failOnUnreadable,
+        level
       );
       if (result !== null) return result;
       index++;
@@ -356,16 +499,20 @@ function findUnfrozenPathImpl(
   // Check object properties
   const propNames = Object.getOwnPropertyNames(obj);
   for (const propName of propNames) {
+    if (isSharedPrototype(obj, propName)) continue;
     try {
       const propValue = (obj as Record<string, unknown>)[propName];
       const result = findUnfrozenPathImpl(
         propValue,
-        path ? `${path}.${propName}` : propName,
-        visited
+        propertyPath(path, propName),
+        visited,
+        failOnUnreadable,
+        level
       );
       if (result !== null) return result;
     } catch {
-      // Skip inaccessible properties
+      // Skip inaccessible properties, unless they count as unfrozen
+      if (failOnUnreadable) return propertyPath(path, propName);
     }
   }
 
@@ -405,13 +552,19 @@ export function countFrozenObjects(value: unknown): {
     if (visited.has(obj)) return;
     visited.add(obj);
 
-    if (Object.isFrozen(obj)) {
+    const handler = getTypeHandler(obj);
+    if (isShallowImmobile(obj, handler)) {
       frozen++;
     } else {
       unfrozen++;
     }
 
-    if (Array.isArray(obj)) {
+    // Nothing to count below a binary value or an opaque container
+    if (isBinary(obj) || isLeaf(obj, handler)) return;
+
+    if (handler?.children) {
+      for (const child of handler.children(obj)) count(child);
+    } else if (Array.isArray(obj)) {
       for (const item of obj) count(item);
     } else if (obj instanceof Map) {
       for (const [k, v] of obj) {
@@ -435,3 +588,100 @@ export function countFrozenObjects(value: unknown): {
 
   return { frozen, unfrozen, total: frozen + unfrozen };
 }
+
+// =============================================================================
+// Sealed and Non-Extensible
+// =============================================================================
+
+/**
+ * Check if a value is deeply sealed, as `deepSeal()` leaves it: every
+ * object in the graph is sealed (or frozen). Binary data and opaque
+ * containers are accepted as they are.
+ *
+ * @param value - Value to check
+ * @returns True if no property can be added or deleted anywhere
+ *
+ * @example
+ * ```ts
+ * isSealed(deepSeal({ pos: { x: 0 } }));  // true
+ * isSealed(Object.seal({ pos: { x: 0 } })); // false - pos is open
+ * ```
+ */
+export function isSealed(value: unknown): value is Sealed<unknown> {
+  return isFrozenImpl(value, new WeakSet(), "sealed");
+}
+
+/**
+ * Assert that a value is deeply sealed.
+ *
+ * @param value - Value to check
+ * @param name - Optional name for error messages
+ * @throws FrozenAssertionError if value is not deeply sealed
+ */
+export function assertSealed(
+  value: unknown,
+  name: string = "value"
+): asserts value is Sealed<unknown> {
+  const path = findUnsealedPath(value);
+  if (path !== null) {
+    throw new FrozenAssertionError(
+      `Expected ${name} to be deeply sealed, but ${path} is not. ` +
+        `Use deepSeal() to fix its shape.`,
+      value,
+      path
+    );
+  }
+}
+
+/**
+ * Find the first path whose object isn't sealed.
+ *
+ * @param value - Value to inspect
+ * @returns Path to the first unsealed object, or null if fully sealed
+ */
+export function findUnsealedPath(value: unknown): string | null {
+  return findUnfrozenPathImpl(value, "", new WeakSet(), false, "sealed");
+}
+
+/**
+ * Check if a value is deeply non-extensible, as `deepPreventExtensions()`
+ * leaves it: no object in the graph accepts new properties.
+ *
+ * @param value - Value to check
+ * @returns True if no property can be added anywhere
+ */
+export function isNonExtensible(value: unknown): value is NonExtensible<unknown> {
+  return isFrozenImpl(value, new WeakSet(), "nonextensible");
+}
+
+/**
+ * Assert that a value is deeply non-extensible.
+ *
+ * @param value - Value to check
+ * @param name - Optional name for error messages
+ * @throws FrozenAssertionError if some object in the graph is extensible
+ */
+export function assertNonExtensible(
+  value: unknown,
+  name: string = "value"
+): asserts value is NonExtensible<unknown> {
+  const path = findExtensiblePath(value);
+  if (path !== null) {
+    throw new FrozenAssertionError(
+      `Expected ${name} to be deeply non-extensible, but ${path} is extensible. ` +
+        `Use deepPreventExtensions() to fix its shape.`,
+      value,
+      path
+    );
+  }
+}
+
+/**
+ * Find the first path whose object still accepts new properties.
+ *
+ * @param value - Value to inspect
+ * @returns Path to the first extensible object, or null if there is none
+ */
+export function findExtensiblePath(value: unknown): string | null {
+  return findUnfrozenPathImpl(value, "", new WeakSet(), false, "nonextensible");
+}
@@ -1,16 +1,24 @@
 import { assertEquals, assertThrows } from "jsr:@std/assert";
-import { freeze } from "./freeze.ts";
+import { configure } from "./config.ts";
+import { deepPreventExtensions, deepSeal, freeze } from "./freeze.ts";
 import {
     assertFrozen,
     assertMutable,
+    assertNonExtensible,
+    assertSealed,
     assertShallowFrozen,
     countFrozenObjects,
+    findExtensiblePath,
     findUnfrozenPath,
+    findUnsealedPath,
     FrozenAssertionError,
     isDeeplyFrozen,
     isFrozen,
+    isNonExtensible,
+    isSealed,
     isShallowFrozen,
 } from "./validation.ts";
+import { VALIDATE } from "./types.ts";
 
 // =============================================================================
 // isShallowFrozen
@@ -104,6 +112,123 @@ Deno.test("isFrozen - handles frozen Sets", () => {
   assertEquals(isFrozen(set), true);
 });
 
+Deno.test("isFrozen - returns false for Map frozen only with Object.freeze", () => {
+  const map = Object.freeze(new Map([["key", 1]]));
+  assertEquals(isFrozen(map), false);
+  assertEquals(isShallowFrozen(map), false);
+});
+
+Deno.test("isFrozen - returns false for Set frozen only with Object.freeze", () => {
+  const set = Object.freeze(new Set([1]));
+  assertEquals(isFrozen(set), false);
+});
+
+Deno.test("isFrozen - returns false for Date frozen only with Object.freeze", () => {
+  assertEquals(isFrozen(Object.freeze(new Date())), false);
+  assertEquals(isFrozen(freeze(new Date())), true);
+});
+
+Deno.test("isFrozen - binary data must be a read-only facade", () => {
+  assertEquals(isFrozen(new Uint8Array(2)), false);
+  assertEquals(isFrozen(Object.freeze(new ArrayBuffer(2))), false);
+  assertEquals(isFrozen(freeze({ bytes: new Uint8Array(2) })), true);
+});
+
+Deno.test("findUnfrozenPath - reports mutable TypedArray", () => {
+  const obj = Object.freeze({ bytes: new Uint8Array(2) });
+  assertEquals(findUnfrozenPath(obj), "bytes");
+});
+
+Deno.test("isFrozen - consults [VALIDATE]", () => {
+  class Counter {
+    #count = 0;
+    #sealed = false;
+    seal() {
+      this.#sealed = true;
+      return this;
+    }
+    [VALIDATE]() {
+      return this.#sealed;
+    }
+  }
+  const open = freeze({ counter: new Counter() });
+  assertEquals(isFrozen(open), false);
+  assertEquals(findUnfrozenPath(open), "counter");
+  const sealed = freeze({ counter: new Counter().seal() });
+  assertEquals(isFrozen(sealed), true);
+});
+
+Deno.test("isFrozen - [VALIDATE] receives a deep check for hidden children", () => {
+  const hidden = { mutable: true };
+  const holder = freeze({
+    [VALIDATE]: (check: (value: unknown) => boolean) => check(hidden),
+  });
+  assertEquals(isFrozen(holder), false);
+  freeze(hidden);
+  assertEquals(isFrozen(holder), true);
+});
+
+Deno.test("isFrozen - checks function statics but not prototypes", () => {
+  function handler() {}
+  handler.meta = { route: "/" };
+  const config = freeze({ handler });
+  assertEquals(isFrozen(config), false);
+  freeze(config.handler, { functions: "freeze" });
+  assertEquals(Object.isFrozen(handler.prototype), false);
+  assertEquals(isFrozen(config), true);
+});
+
+Deno.test("isFrozen - returns false for URL, Headers and Error frozen only with Object.freeze", () => {
+  assertEquals(isFrozen(Object.freeze(new URL("https://example.com"))), false);
+  assertEquals(isFrozen(Object.freeze(new Headers())), false);
+  assertEquals(isFrozen(Object.freeze(new Error("boom"))), false);
+  assertEquals(isFrozen(freeze(new URL("https://example.com"))), true);
+  assertEquals(isFrozen(freeze(new Headers())), true);
+  assertEquals(isFrozen(freeze(new Error("boom"))), true);
+});
+
+Deno.test("findUnfrozenPath - reports an Error's mutable cause", () => {
+  const handFrozen = Object.freeze(new Error("boom"));
+  assertEquals(findUnfrozenPath(Object.freeze({ error: handFrozen })), "error");
+  const error = freeze(new Error("boom", { cause: { id: 1 } }), { depth: 0 });
+  assertEquals(findUnfrozenPath(Object.freeze({ error })), "error.cause");
+  assertEquals(findUnfrozenPath(freeze({ error: new Error("boom", { cause: { id: 1 } }) })), null);
+});
+
+Deno.test("isFrozen - opaque containers follow the configured policy", () => {
+  const referenced = freeze({ cache: new WeakMap() });
+  const facaded = freeze({ cache: new WeakMap() }, { opaque: "facade" });
+  assertEquals(isFrozen(referenced), true);
+  assertEquals(isFrozen(facaded), true);
+
+  configure({ opaque: "facade" });
+  try {
+    assertEquals(isFrozen(referenced), false);
+    assertEquals(findUnfrozenPath(referenced), "cache");
+    assertEquals(isFrozen(facaded), true);
+  } finally {
+    configure({ opaque: "reference" });
+  }
+});
+
+Deno.test("countFrozenObjects - counts opaque containers without looking inside", () => {
+  configure({ opaque: "throw" });
+  try {
+    assertEquals(countFrozenObjects(Object.freeze({ ref: new WeakRef({}) })), {
+      frozen: 1,
+      unfrozen: 1,
+      total: 2,
+    });
+  } finally {
+    configure({ opaque: "reference" });
+  }
+});
+
+Deno.test("findUnfrozenPath - reports mutable Map nested in frozen object", () => {
+  const obj = Object.freeze({ lookup: Object.freeze(new Map()) });
+  assertEquals(findUnfrozenPath(obj), "lookup");
+});
+
 // =============================================================================
 // isDeeplyFrozen
 // =============================================================================
@@ -299,3 +424,72 @@ Deno.test("countFrozenObjects - handles empty object", () => {
   assertEquals(result.frozen, 1);
   assertEquals(result.unfrozen, 0);
 });
+
+// =============================================================================
+// isSealed / isNonExtensible
+// =============================================================================
+
+Deno.test("isSealed - true after deepSeal and after freeze", () => {
+  assertEquals(isSealed(deepSeal({ a: { b: [1] } })), true);
+  assertEquals(isSealed(freeze({ a: { b: [1] } })), true);
+  assertEquals(isSealed(42), true);
+});
+
+Deno.test("isSealed - false when a nested object is open", () => {
+  assertEquals(isSealed(Object.seal({ a: {} })), false);
+  assertEquals(isSealed(deepPreventExtensions({ a: {} })), false);
+  assertEquals(isFrozen(deepSeal({ a: 1 })), false);
+});
+
+Deno.test("isNonExtensible - accepts sealed and frozen graphs", () => {
+  assertEquals(isNonExtensible(deepPreventExtensions({ a: [{}] })), true);
+  assertEquals(isNonExtensible(deepSeal({ a: [{}] })), true);
+  assertEquals(isNonExtensible(Object.preventExtensions({ a: {} })), false);
+});
+
+Deno.test("findUnsealedPath - returns the open path", () => {
+  const obj = deepSeal({ a: { b: 1 }, list: [{}] });
+  assertEquals(findUnsealedPath(obj), null);
+  const open = Object.seal({ a: Object.seal({}), list: Object.seal([{}]) });
+  assertEquals(findUnsealedPath(open), "list[0]");
+});
+
+Deno.test("findExtensiblePath - returns the extensible path", () => {
+  assertEquals(findExtensiblePath(Object.preventExtensions({ a: { b: 1 } })), "a");
+  assertEquals(findExtensiblePath(deepPreventExtensions({ a: { b: 1 } })), null);
+});
+
+Deno.test("assertSealed - throws with the open path", () => {
+  assertSealed(deepSeal({ a: {} }));
+  const error = assertThrows(
+    () => assertSealed(Object.seal({ a: {} }), "entity"),
+    FrozenAssertionError,
+    "Expected entity to be deeply sealed, but a is not"
+  );
+  assertEquals(error.path, "a");
+});
+
+Deno.test("assertNonExtensible - throws for extensible nested objects", () => {
+  assertNonExtensible(deepPreventExtensions({ a: {} }));
+  assertThrows(
+    () => assertNonExtensible({ a: {} }),
+    FrozenAssertionError,
+    "(root) is extensible"
+  );
+});
+
+// =============================================================================
+// Production mode
+// =============================================================================
+
+Deno.test("assertFrozen - passes in production mode, isFrozen still checks", () => {
+  configure({ mode: "production" });
+  try {
+    const value = freeze({ a: 1 });
+    assertFrozen(value);
+    assertShallowFrozen(value);
+    assertEquals(isFrozen(value), false);
+  } finally {
+    configure({ mode: "development" });
+  }
+});
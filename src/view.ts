@@ -0,0 +1,259 @@
+/**
+ * Read-only views: Proxies through which a value can be read but not
+ * changed, while the value itself stays mutable for its owner.
+ *
+ * `freeze` changes the caller's object and `frozenCopy` clones the whole
+ * graph. A view costs one Proxy per object actually reached: nested objects
+ * are wrapped when they are read, and each object has a single view, so
+ * `view.user === view.user`. Changes made by the owner show through.
+ *
+ * Writes, deletes, `defineProperty` and prototype changes through a view
+ * throw a TypeError, in sloppy-mode code too. Methods of Map, Set, Date,
+ * URL, URLSearchParams, Headers, binary data, RegExp and the opaque
+ * containers run against the real instance; the mutating ones throw, and
+ * what the others return is wrapped in turn.
+ *
+ * Each view wraps an empty stand-in rather than the value itself, so that
+ * a frozen property holding a mutable object can still be read as a view
+ * without breaking Proxy invariants. Views are therefore never reported
+ * as frozen or non-extensible by `Object.isFrozen`, but the library's
+ * validation treats them as read-only facades.
+ *
+ * @module
+ */
+
+import { isBinary, isBinaryMutator } from "./binary.ts";
+import { isFacade, lockedMethods, registerFacade, requiresLock } from "./lock.ts";
+import { typeName } from "./objects.ts";
+import { isOpaque, opaqueMutators } from "./opaque.ts";
+import type { Frozen } from "./types.ts";
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/** Value -> its view, so every path to a value yields one view. */
+const VIEWS_BY_TARGET = new WeakMap<object, object>();
+
+/** View -> the value it shows. */
+const VIEW_TARGETS = new WeakMap<object, object>();
+
+/** Methods that return an iterator over the instance's contents. */
+const ITERATION_METHODS = new Set<PropertyKey>(["entries", "keys", "values", Symbol.iterator]);
+
+function reject(target: object, action: string): never {
+  throw new TypeError(`Cannot ${action} a read-only ${typeName(target)} view`);
+}
+
+// =============================================================================
+// Built-ins With Internal Slots
+// =============================================================================
+
+/**
+ * Check whether a value's methods only work with the real instance as
+ * `this`, because its state lives in internal slots.
+ */
+function hasInternalSlots(obj: object): boolean {
+  return requiresLock(obj) || isOpaque(obj) || obj instanceof RegExp;
+}
+
+function isMutator(target: object, key: PropertyKey): boolean {
+  if (isBinary(target)) {
+    return isBinaryMutator(target, key);
+  }
+  if (isOpaque(target)) {
+    return opaqueMutators(target)!.has(key);
+  }
+  if (target instanceof RegExp) {
+    return key === "compile";
+  }
+  return typeof key === "string" && lockedMethods(target).includes(key);
+}
+
+/**
+ * Stand-in for a method of a built-in with internal slots, called on the
+ * real instance. Map and Set contents are wrapped as they are iterated;
+ * other iterators yield primitives and are returned as they are.
+ */
+function slotMethod(
+  view: object,
+  target: object,
+  key: PropertyKey,
+  method: (...args: unknown[]) => unknown
+): unknown {
+  if (isMutator(target, key)) {
+    return () => reject(target, `call ${String(key)}() on`);
+  }
+
+  if (target instanceof Map || target instanceof Set) {
+    if (ITERATION_METHODS.has(key)) {
+      const yieldsPairs = key === "entries" || (key === Symbol.iterator && target instanceof Map);
+      return function* (): Generator<unknown> {
+        for (const item of method.call(target) as Iterable<[unknown, unknown]>) {
+          yield yieldsPairs ? [wrap(item[0]), wrap(item[1])] : wrap(item);
+        }
+      };
+    }
+    if (key === "forEach") {
+      type Callback = (value: unknown, key: unknown, view: object) => void;
+      return (callback: Callback, thisArg?: unknown) => {
+        (target as Map<unknown, unknown>).forEach((value, itemKey) => {
+          callback.call(thisArg, wrap(value), wrap(itemKey), view);
+        });
+      };
+    }
+  }
+
+  if (ITERATION_METHODS.has(key)) {
+    return method.bind(target);
+  }
+  return (...args: unknown[]) => wrap(method.apply(target, args));
+}
+
+// =============================================================================
+// Views
+// =============================================================================
+
+function wrap(value: unknown): unknown {
+  return value !== null && typeof value === "object" ? viewOf(value) : value;
+}
+
+function viewOf(target: object): object {
+  // Facades (and views) are read-only already
+  if (isFacade(target)) {
+    return target;
+  }
+  const existing = VIEWS_BY_TARGET.get(target);
+  if (existing) {
+    return existing;
+  }
+
+  const slots = hasInternalSlots(target);
+  const methods = new Map<PropertyKey, unknown>();
+  const shadow: object = Array.isArray(target) ? [] : {};
+
+  const view: object = new Proxy(shadow, {
+    get(_s, key) {
+      const cached = methods.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      // Accessors run against the real value, like methods of built-ins
+      const value = Reflect.get(target, key, target);
+      if (typeof value !== "function") {
+        return wrap(value);
+      }
+      if (!slots) {
+        return value;
+      }
+
+      const method = slotMethod(view, target, key, value as (...args: unknown[]) => unknown);
+      methods.set(key, method);
+      return method;
+    },
+    has(_s, key) {
+      return Reflect.has(target, key);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(target);
+    },
+    getOwnPropertyDescriptor(s, key) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+      if (descriptor === undefined) {
+        return undefined;
+      }
+      // The stand-in array's own length is non-configurable and writable,
+      // and the reported one has to match it
+      if (key === "length" && Array.isArray(s)) {
+        return { ...descriptor, writable: true };
+      }
+      // Accessors are reported as the value they currently produce
+      const value = "value" in descriptor ? descriptor.value : Reflect.get(target, key, target);
+      return {
+        value: typeof value === "function" ? value : wrap(value),
+        writable: false,
+        enumerable: descriptor.enumerable,
+        configurable: true,
+      };
+    },
+    getPrototypeOf() {
+      return Reflect.getPrototypeOf(target);
+    },
+    set(_s, key) {
+      return reject(target, `assign to ${String(key)} of`);
+    },
+    defineProperty(_s, key) {
+      return reject(target, `define ${String(key)} on`);
+    },
+    deleteProperty(_s, key) {
+      return reject(target, `delete ${String(key)} from`);
+    },
+    setPrototypeOf() {
+      return reject(target, "change the prototype of");
+    },
+    preventExtensions() {
+      return reject(target, "prevent extensions of");
+    },
+  });
+
+  VIEWS_BY_TARGET.set(target, view);
+  VIEW_TARGETS.set(view, target);
+  registerFacade(view);
+  return view;
+}
+
+/**
+ * Create a read-only view of a value, without copying or freezing it.
+ *
+ * Reading through the view works as usual, with every object reached
+ * through it wrapped in a view too. Writing through it throws a TypeError.
+ * The owner keeps the original and may go on changing it; the view shows
+ * the changes. Use it to hand internal state to code that must not change
+ * it, when freezing the state isn't an option and copying it costs too
+ * much.
+ *
+ * Objects read through a view are views, not the originals: `includes` or
+ * `===` against an original won't match. Functions are returned as they
+ * are; calling a method through the view runs it with the view as `this`,
+ * so methods that write throw, and methods that use `#private` fields
+ * fail. Promises resolve to unwrapped values.
+ *
+ * @param value - Value to show (primitives and functions are returned as is)
+ * @returns View of the value, or the value itself if it is already a view
+ *   or another read-only facade
+ *
+ * @example
+ * ```ts
+ * const session = { user: { name: "ada" }, roles: new Set(["admin"]) };
+ * const view = readonlyView(session);
+ *
+ * view.user.name;            // "ada"
+ * view.user.name = "eve";    // TypeError, in sloppy mode too
+ * view.roles.add("root");    // TypeError
+ *
+ * session.user.name = "bob"; // the owner can still change it
+ * view.user.name;            // "bob"
+ * ```
+ */
+export function readonlyView<T>(value: T): Frozen<T> {
+  return wrap(value) as Frozen<T>;
+}
+
+/**
+ * Check whether a value is a view created by `readonlyView()`.
+ */
+export function isReadonlyView(value: unknown): boolean {
+  return value !== null && typeof value === "object" && VIEW_TARGETS.has(value);
+}
+
+/**
+ * Get the value behind a view, or the value itself if it isn't one.
+ * Only for reading - the returned value must not be mutated or leaked.
+ */
+export function unwrapView<T>(value: T): T {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  return (VIEW_TARGETS.get(value) as T | undefined) ?? value;
+}
@@ -0,0 +1,160 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { frozenCopy } from "./copy.ts";
+import { freeze } from "./freeze.ts";
+import { isFrozen } from "./validation.ts";
+import { isReadonlyView, readonlyView } from "./view.ts";
+
+// =============================================================================
+// Objects and arrays
+// =============================================================================
+
+Deno.test("readonlyView - reads through, leaves the original mutable", () => {
+  const state = { user: { name: "ada" }, tags: ["a"] };
+  const view = readonlyView(state);
+  assertEquals(view.user.name, "ada");
+  assertEquals(view.tags.length, 1);
+  assertEquals(Object.isFrozen(state), false);
+
+  state.user.name = "bob";
+  state.tags.push("b");
+  assertEquals(view.user.name, "bob");
+  assertEquals([...view.tags], ["a", "b"]);
+});
+
+Deno.test("readonlyView - writes, deletes and defineProperty throw", () => {
+  const view = readonlyView({ a: { b: 1 }, list: [1, 2] }) as any;
+  assertThrows(() => {
+    view.a.b = 2;
+  }, TypeError, "Cannot assign to b of a read-only Object view");
+  assertThrows(() => {
+    delete view.a;
+  }, TypeError);
+  assertThrows(() => Object.defineProperty(view, "c", { value: 1 }), TypeError);
+  assertThrows(() => Object.setPrototypeOf(view, null), TypeError);
+  assertThrows(() => view.list.push(3), TypeError);
+  assertThrows(() => view.list.sort(), TypeError);
+});
+
+Deno.test("readonlyView - writes throw in sloppy-mode code", () => {
+  const view = readonlyView({ a: 1 });
+  const sloppyAssign = new Function("target", "target.a = 2;");
+  assertThrows(() => sloppyAssign(view), TypeError);
+});
+
+Deno.test("readonlyView - nested views are cached", () => {
+  const state = { inner: {} };
+  const view = readonlyView(state);
+  assertEquals(view.inner === view.inner, true);
+  assertEquals(readonlyView(state), view);
+  assertEquals(readonlyView(view), view);
+  assertEquals(isReadonlyView(view.inner), true);
+  assertEquals(isReadonlyView(state), false);
+});
+
+Deno.test("readonlyView - keeps shape for reflection and iteration", () => {
+  const view = readonlyView({ a: 1, list: [{ n: 1 }] });
+  assertEquals(Object.keys(view), ["a", "list"]);
+  assertEquals(Array.isArray(view.list), true);
+  assertEquals(JSON.stringify(view), '{"a":1,"list":[{"n":1}]}');
+  assertEquals(view.list.map((item) => isReadonlyView(item)), [true]);
+  assertEquals(Object.getOwnPropertyDescriptor(view, "a")?.writable, false);
+});
+
+Deno.test("readonlyView - mutable objects under frozen properties are wrapped", () => {
+  const inner = { n: 1 };
+  const view = readonlyView(Object.freeze({ inner }));
+  assertEquals(isReadonlyView(view.inner), true);
+  assertThrows(() => {
+    (view.inner as any).n = 2;
+  }, TypeError);
+});
+
+Deno.test("readonlyView - primitives and functions are returned as is", () => {
+  const fn = () => 1;
+  assertEquals(readonlyView(42), 42);
+  assertEquals(readonlyView(null), null);
+  assertEquals(readonlyView(fn) as unknown, fn);
+});
+
+// =============================================================================
+// Built-ins
+// =============================================================================
+
+Deno.test("readonlyView - Map reads wrap values, mutators throw", () => {
+  const key = { id: 1 };
+  const map = new Map([[key, { count: 1 }]]);
+  const view = readonlyView(map);
+  assertEquals(view.size, 1);
+  assertEquals(view.get(key)?.count, 1);
+  assertEquals(isReadonlyView(view.get(key)), true);
+  assertEquals(view instanceof Map, true);
+  assertThrows(() => (view as any).set(key, 2), TypeError, "Cannot call set() on a read-only Map view");
+  assertThrows(() => (view as any).clear(), TypeError);
+
+  for (const [k, v] of view) {
+    assertEquals(isReadonlyView(k), true);
+    assertEquals(isReadonlyView(v), true);
+  }
+  view.forEach((value) => assertEquals(isReadonlyView(value), true));
+});
+
+Deno.test("readonlyView - Set members are wrapped", () => {
+  const view = readonlyView(new Set([{ n: 1 }]));
+  const [member] = [...view.values()];
+  assertEquals(isReadonlyView(member), true);
+  assertThrows(() => (view as any).add({}), TypeError);
+  assertThrows(() => (view as any).delete(member), TypeError);
+});
+
+Deno.test("readonlyView - Date getters work, setters throw", () => {
+  const date = new Date(0);
+  const view = readonlyView(date);
+  assertEquals(view.getTime(), 0);
+  assertThrows(() => (view as any).setTime(5), TypeError);
+  date.setTime(10);
+  assertEquals(view.getTime(), 10);
+});
+
+Deno.test("readonlyView - URL, binary data and WeakMap", () => {
+  const url = readonlyView(new URL("https://example.com/?a=1"));
+  assertEquals(url.searchParams.get("a"), "1");
+  assertThrows(() => (url.searchParams as any).set("a", "2"), TypeError);
+  assertThrows(() => {
+    (url as any).pathname = "/x";
+  }, TypeError);
+
+  const bytes = readonlyView(new Uint8Array([1, 2]));
+  assertEquals(bytes[1], 2);
+  assertEquals([...bytes], [1, 2]);
+  assertThrows(() => (bytes as any).fill(0), TypeError);
+  assertThrows(() => {
+    (bytes as any)[0] = 9;
+  }, TypeError);
+
+  const key = {};
+  const cache = readonlyView(new WeakMap([[key, { hit: true }]]));
+  assertEquals(isReadonlyView(cache.get(key)), true);
+  assertThrows(() => (cache as any).set(key, 1), TypeError);
+});
+
+// =============================================================================
+// Interaction with freezing and copying
+// =============================================================================
+
+Deno.test("readonlyView - counts as frozen and is left alone by freeze", () => {
+  const state = { a: {} };
+  const view = readonlyView(state);
+  assertEquals(isFrozen(view), true);
+  const holder = freeze({ view });
+  assertEquals(holder.view, view);
+  assertEquals(Object.isFrozen(state), false);
+});
+
+Deno.test("frozenCopy - copies the value behind a view", () => {
+  const view = readonlyView({ a: { b: 1 }, bytes: new Uint8Array([1]) });
+  const copy = frozenCopy(view);
+  assertEquals(isReadonlyView(copy), false);
+  assertEquals(isReadonlyView(copy.a), false);
+  assertEquals(copy.a.b, 1);
+  assertEquals(isFrozen(copy), true);
+});